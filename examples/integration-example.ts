@@ -57,7 +57,7 @@ async function testAndImplementScenario() {
   try {
     const firstRunResult = await testExecutor.runScenario(scenarioPath);
     
-    if (firstRunResult.success) {
+    if (firstRunResult.failed === 0) {
       console.log('✅ Tests passed on first run!');
       return;
     } else {
@@ -97,12 +97,13 @@ async function testAndImplementScenario() {
       console.log('Running tests with generated implementation...');
       const secondRunResult = await testExecutor.runScenario(scenarioPath);
       
-      if (secondRunResult.success) {
+      if (secondRunResult.failed === 0) {
         console.log('✅ Tests passed after implementation!');
       } else {
         console.log('❌ Tests still failing after implementation');
         console.log('Failures:');
-        secondRunResult.stepResults
+        secondRunResult.results
+          .flatMap(result => result.stepResults || [])
           .filter(step => !step.success)
           .forEach(step => {
             console.log(`- ${step.step}: ${step.error}`);
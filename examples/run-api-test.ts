@@ -31,20 +31,22 @@ async function runApiTest() {
   
   try {
     console.log('Running API test scenario...');
-    const result = await testExecutor.runScenario(scenarioPath);
+    const results = await testExecutor.runScenario(scenarioPath);
     
-    console.log(`Test ${result.success ? 'PASSED ✅' : 'FAILED ❌'}`);
+    console.log(`Test ${results.failed === 0 ? 'PASSED ✅' : 'FAILED ❌'}`);
     
-    // Print step results
-    console.log('\nStep Results:');
-    result.stepResults.forEach((step, index) => {
-      console.log(`${index + 1}. ${step.step} - ${step.success ? '✓' : '✗'}`);
-      if (!step.success && step.error) {
-        console.log(`   Error: ${step.error}`);
-      }
+    // Print step results for each scenario in the file
+    results.results.forEach(result => {
+      console.log(`\nStep Results (${result.scenarioTitle}):`);
+      (result.stepResults || []).forEach((step, index) => {
+        console.log(`${index + 1}. ${step.step} - ${step.success ? '✓' : '✗'}`);
+        if (!step.success && step.error) {
+          console.log(`   Error: ${step.error}`);
+        }
+      });
     });
     
-    console.log(`\nTest duration: ${result.duration}ms`);
+    console.log(`\nTest duration: ${results.duration}ms`);
   } catch (error) {
     console.error('Error running test:', error);
   }
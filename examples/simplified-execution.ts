@@ -54,7 +54,7 @@ async function runSimplifiedFlow() {
     console.log(formatResults(results));
     console.log('');
     
-    if (results.success) {
+    if (results.failed === 0) {
       console.log(chalk.green('✅ Test passed! Implementation exists.'));
     } else {
       console.log(chalk.red('❌ Test failed! Implementation may be missing.'));
@@ -0,0 +1,7 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  // Specs live next to the code; examples/output holds generated sample tests
+  roots: ['<rootDir>/src']
+};
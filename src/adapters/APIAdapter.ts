@@ -12,12 +12,13 @@ export interface APIRequest {
   headers?: Record<string, string>;
   body?: any;
   params?: Record<string, string>;
+  // Aborts the request, e.g. when the step times out
+  signal?: AbortSignal;
 }
 
 export class APIAdapter extends BaseAdapter {
   private baseUrl: string;
   private defaultHeaders: Record<string, string>;
-  private lastResponse: APIResponse | null = null;
 
   constructor(config: {
     baseUrl?: string;
@@ -51,7 +52,8 @@ export class APIAdapter extends BaseAdapter {
       const response = await fetch(url, {
         method: request.method,
         headers,
-        body: request.body ? JSON.stringify(request.body) : undefined
+        body: request.body ? JSON.stringify(request.body) : undefined,
+        signal: request.signal
       });
       
       let responseBody;
@@ -62,13 +64,13 @@ export class APIAdapter extends BaseAdapter {
         responseBody = await response.text();
       }
       
-      this.lastResponse = {
+      this.world.lastResponse = {
         status: response.status,
         headers: Object.fromEntries(response.headers.entries()),
         body: responseBody
       };
       
-      return this.lastResponse;
+      return this.world.lastResponse;
     } catch (error) {
       console.error('API request failed:', error);
       throw error;
@@ -83,7 +85,9 @@ export class APIAdapter extends BaseAdapter {
       headerContains?: Record<string, string>;
     }
   ): Promise<{ success: boolean; reason?: string }> {
-    if (!this.lastResponse) {
+    const lastResponse = this.world.lastResponse;
+    
+    if (!lastResponse) {
       return { 
         success: false, 
         reason: 'No previous API response to verify' 
@@ -91,17 +95,17 @@ export class APIAdapter extends BaseAdapter {
     }
     
     // Verify status code
-    if (expectations.status && this.lastResponse.status !== expectations.status) {
+    if (expectations.status && lastResponse.status !== expectations.status) {
       return { 
         success: false, 
-        reason: `Expected status ${expectations.status} but got ${this.lastResponse.status}` 
+        reason: `Expected status ${expectations.status} but got ${lastResponse.status}` 
       };
     }
     
     // Verify body contains expected properties
     if (expectations.bodyContains) {
       for (const [key, value] of Object.entries(expectations.bodyContains)) {
-        if (!this.deepCompare(this.lastResponse.body, key, value)) {
+        if (!this.deepCompare(lastResponse.body, key, value)) {
           return { 
             success: false, 
             reason: `Response body missing or has incorrect value for '${key}'` 
@@ -111,7 +115,7 @@ export class APIAdapter extends BaseAdapter {
     }
     
     // Verify body matches custom function
-    if (expectations.bodyMatches && !expectations.bodyMatches(this.lastResponse.body)) {
+    if (expectations.bodyMatches && !expectations.bodyMatches(lastResponse.body)) {
       return { 
         success: false, 
         reason: 'Response body did not match custom validation function' 
@@ -121,10 +125,10 @@ export class APIAdapter extends BaseAdapter {
     // Verify headers
     if (expectations.headerContains) {
       for (const [key, value] of Object.entries(expectations.headerContains)) {
-        const headerKey = Object.keys(this.lastResponse.headers)
+        const headerKey = Object.keys(lastResponse.headers)
           .find(h => h.toLowerCase() === key.toLowerCase());
           
-        if (!headerKey || this.lastResponse.headers[headerKey] !== value) {
+        if (!headerKey || lastResponse.headers[headerKey] !== value) {
           return { 
             success: false, 
             reason: `Expected header '${key}' with value '${value}' not found` 
@@ -137,7 +141,7 @@ export class APIAdapter extends BaseAdapter {
   }
 
   getLastResponse(): APIResponse | null {
-    return this.lastResponse;
+    return this.world.lastResponse || null;
   }
 
   private resolveUrl(path: string): string {
@@ -33,9 +33,10 @@ export class AnthropicAdapter extends BaseAdapter implements LLMAdapter {
   /**
    * Complete a prompt with the LLM
    * @param prompt The prompt to complete
+   * @param signal Aborts the request, e.g. when the step times out
    * @returns The completion text
    */
-  async complete(prompt: string): Promise<string> {
+  async complete(prompt: string, signal?: AbortSignal): Promise<string> {
     console.log(`Completing prompt with Anthropic: ${prompt.substring(0, 50)}...`);
     
     try {
@@ -51,7 +52,8 @@ export class AnthropicAdapter extends BaseAdapter implements LLMAdapter {
           messages: [{ role: 'user', content: prompt }],
           max_tokens: 4000,
           temperature: 0.2
-        })
+        }),
+        signal
       });
 
       if (!response.ok) {
@@ -1,10 +1,38 @@
+import { VariableStore } from '../core/VariableStore';
+import { ScenarioWorld } from '../types/world';
+
 export abstract class BaseAdapter {
   protected config: any;
   
+  /**
+   * World of the scenario the adapter is running for, or one of its own when
+   * it is used outside of a scenario
+   */
+  protected world: ScenarioWorld = { variables: new VariableStore(), artifacts: {} };
+  
   constructor(config: any) {
     this.config = config;
   }
   
+  /**
+   * Create a fresh, uninitialized adapter with the same configuration, e.g.
+   * for another worker. Adapters whose constructor takes more than the
+   * configuration override this.
+   */
+  clone(): BaseAdapter {
+    const AdapterClass = this.constructor as new (config: any) => BaseAdapter;
+    return new AdapterClass(this.config);
+  }
+  
+  /**
+   * Run for a scenario, recording what the adapter does in its world, or
+   * start over with a world of its own with null. Each worker has its own
+   * adapters, so they run for one scenario at a time.
+   */
+  useWorld(world: ScenarioWorld | null): void {
+    this.world = world || { variables: new VariableStore(), artifacts: {} };
+  }
+  
   abstract initialize(): Promise<void>;
   abstract cleanup(): Promise<void>;
 }
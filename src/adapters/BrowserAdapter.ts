@@ -24,11 +24,15 @@ export class BrowserAdapter extends BaseAdapter {
   async captureScreenState(): Promise<ScreenState> {
     console.log('Capturing screen state');
     // In a real implementation, this would capture the current state of the page
-    return {
+    const state: ScreenState = {
       url: 'https://example.com',
       title: 'Example Page',
       elements: []
     };
+    
+    this.world.screenState = state;
+    
+    return state;
   }
   
   async executeAction(action: UIAction): Promise<{ success: boolean }> {
@@ -36,9 +36,10 @@ export class CraftacoderAdapter extends BaseAdapter implements LLMAdapter {
   /**
    * Complete a prompt with the LLM via Craftacoder API
    * @param prompt The prompt to complete
+   * @param signal Aborts the request, e.g. when the step times out
    * @returns The completion text
    */
-  async complete(prompt: string): Promise<string> {
+  async complete(prompt: string, signal?: AbortSignal): Promise<string> {
     console.log(`Completing prompt via Craftacoder: ${prompt.substring(0, 50)}...`);
     
     try {
@@ -72,7 +73,8 @@ export class CraftacoderAdapter extends BaseAdapter implements LLMAdapter {
           'Content-Type': 'application/json',
           'X-API-Key': this.apiKey
         },
-        body: JSON.stringify(payload)
+        body: JSON.stringify(payload),
+        signal
       });
 
       if (!response.ok) {
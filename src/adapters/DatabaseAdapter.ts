@@ -11,7 +11,6 @@ export interface QueryResult {
 export class DatabaseAdapter extends BaseAdapter {
   private dbType: DatabaseType;
   private connection: any = null;
-  private lastResult: QueryResult | null = null;
   private mockMode: boolean;
   private mockResults: Record<string, QueryResult> = {};
 
@@ -79,7 +78,7 @@ export class DatabaseAdapter extends BaseAdapter {
     if (this.mockMode) {
       // In mock mode, return predefined results based on the query
       const mockResult = this.mockResults[query] || { rows: [] };
-      this.lastResult = mockResult;
+      this.world.lastQueryResult = mockResult;
       return mockResult;
     }
     
@@ -94,7 +93,7 @@ export class DatabaseAdapter extends BaseAdapter {
         rowCount: 1
       };
       
-      this.lastResult = result;
+      this.world.lastQueryResult = result;
       return result;
     } catch (error) {
       console.error('Query execution failed:', error);
@@ -110,7 +109,9 @@ export class DatabaseAdapter extends BaseAdapter {
       customValidation?: (result: QueryResult) => boolean;
     }
   ): Promise<{ success: boolean; reason?: string }> {
-    if (!this.lastResult) {
+    const lastResult = this.world.lastQueryResult;
+    
+    if (!lastResult) {
       return { 
         success: false, 
         reason: 'No previous query result to verify' 
@@ -119,16 +120,16 @@ export class DatabaseAdapter extends BaseAdapter {
     
     // Verify row count
     if (expectations.rowCount !== undefined && 
-        this.lastResult.rowCount !== expectations.rowCount) {
+        lastResult.rowCount !== expectations.rowCount) {
       return { 
         success: false, 
-        reason: `Expected ${expectations.rowCount} rows but got ${this.lastResult.rowCount}` 
+        reason: `Expected ${expectations.rowCount} rows but got ${lastResult.rowCount}` 
       };
     }
     
     // Verify has rows
     if (expectations.hasRows !== undefined) {
-      const hasRows = this.lastResult.rows.length > 0;
+      const hasRows = lastResult.rows.length > 0;
       if (expectations.hasRows !== hasRows) {
         return { 
           success: false, 
@@ -142,7 +143,7 @@ export class DatabaseAdapter extends BaseAdapter {
     // Verify rows contain expected data
     if (expectations.rowsContain) {
       for (const expectedRow of expectations.rowsContain) {
-        const matchingRow = this.lastResult.rows.find(row => {
+        const matchingRow = lastResult.rows.find(row => {
           return Object.entries(expectedRow).every(([key, value]) => row[key] === value);
         });
         
@@ -157,7 +158,7 @@ export class DatabaseAdapter extends BaseAdapter {
     
     // Custom validation
     if (expectations.customValidation && 
-        !expectations.customValidation(this.lastResult)) {
+        !expectations.customValidation(lastResult)) {
       return { 
         success: false, 
         reason: 'Custom validation failed' 
@@ -168,6 +169,6 @@ export class DatabaseAdapter extends BaseAdapter {
   }
 
   getLastResult(): QueryResult | null {
-    return this.lastResult;
+    return this.world.lastQueryResult || null;
   }
 }
@@ -19,9 +19,10 @@ export class LLMAdapter extends BaseAdapter {
   /**
    * Complete a prompt with the LLM
    * @param prompt The prompt to complete
+   * @param signal Aborts the request, e.g. when the step times out
    * @returns The completion text
    */
-  async complete(prompt: string): Promise<string> {
+  async complete(prompt: string, signal?: AbortSignal): Promise<string> {
     console.log(`Completing prompt: ${prompt.substring(0, 50)}...`);
     // In a real implementation, this would call the LLM API
     return "This is a mock completion from the base LLM adapter";
@@ -50,3 +51,11 @@ export class LLMAdapter extends BaseAdapter {
     return { success: true };
   }
 }
+
+/**
+ * Check whether an adapter can complete prompts. The LLM providers extend
+ * BaseAdapter and implement LLMAdapter, so `instanceof LLMAdapter` misses them.
+ */
+export function isLLMAdapter(adapter: unknown): adapter is LLMAdapter {
+  return typeof (adapter as LLMAdapter | undefined)?.complete === 'function';
+}
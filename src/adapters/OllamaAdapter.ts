@@ -1,6 +1,7 @@
 import { BaseAdapter } from './BaseAdapter';
 import { ScreenState, UIAction } from '../types/actions';
 import { LLMAdapter } from './LLMAdapter';
+import { abortError, createLinkedController } from '../utils/abort';
 
 /**
  * Adapter for using Ollama models locally
@@ -271,7 +272,7 @@ export class OllamaAdapter extends BaseAdapter implements LLMAdapter {
     }
   }
 
-  async complete(prompt: string): Promise<string> {
+  async complete(prompt: string, signal?: AbortSignal): Promise<string> {
     try {
       console.log(`\n----- SENDING PROMPT TO OLLAMA -----`);
       console.log(`Model: ${this.model}`);
@@ -294,8 +295,8 @@ export class OllamaAdapter extends BaseAdapter implements LLMAdapter {
       const stepCount = (prompt.match(/### Steps/g) || []).length;
       console.log(`Detected approximately ${scenarioCount} scenarios and ${stepCount} step sections`);
       
-      // Create an AbortController for the fetch operation
-      const controller = new AbortController();
+      // Create an AbortController for the fetch operation, also aborted by the caller's signal
+      const { controller, dispose } = createLinkedController(signal);
       
       // Track whether we've received the first chunk
       let firstChunkReceived = false;
@@ -502,11 +503,18 @@ export class OllamaAdapter extends BaseAdapter implements LLMAdapter {
         clearTimeout(initialTimeout);
         if (inactivityTimeout) clearTimeout(inactivityTimeout);
         
+        // The caller cancelled the request, e.g. because the step timed out
+        if (signal?.aborted) {
+          throw abortError(signal);
+        }
+        
         // Handle AbortError (timeout)
         if (error instanceof Error && error.name === 'AbortError') {
           throw new Error(`Connection to Ollama timed out. The server might be down, busy, or the generation stalled.`);
         }
         throw error;
+      } finally {
+        dispose();
       }
     } catch (error: unknown) {
       console.error('Error calling Ollama API:', error);
@@ -40,9 +40,10 @@ export class OpenAIAdapter extends BaseAdapter implements LLMAdapter {
   /**
    * Complete a prompt with the LLM
    * @param prompt The prompt to complete
+   * @param signal Aborts the request, e.g. when the step times out
    * @returns The completion text
    */
-  async complete(prompt: string): Promise<string> {
+  async complete(prompt: string, signal?: AbortSignal): Promise<string> {
     console.log(`Completing prompt with OpenAI: ${prompt.substring(0, 50)}...`);
     
     try {
@@ -50,7 +51,7 @@ export class OpenAIAdapter extends BaseAdapter implements LLMAdapter {
         model: this.model,
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.2
-      });
+      }, { signal });
 
       const content = response.choices[0].message.content;
       
@@ -1,6 +1,6 @@
 export { BaseAdapter } from './BaseAdapter';
 export { APIAdapter } from './APIAdapter';
-export { LLMAdapter } from './LLMAdapter';
+export { LLMAdapter, isLLMAdapter } from './LLMAdapter';
 export { AnthropicAdapter } from './AnthropicAdapter';
 export { OpenAIAdapter } from './OpenAIAdapter';
 export { OllamaAdapter } from './OllamaAdapter';
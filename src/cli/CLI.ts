@@ -2,9 +2,16 @@ import { Command } from 'commander';
 import { runScenario } from './commands/run-scenario';
 import { runScenarios } from './commands/run-scenarios';
 import { init } from './commands/init';
+import { lint } from './commands/lint';
+import { fmt } from './commands/fmt';
 import { addRunTestsCommand } from './commands/run-tests';
 import { Logger } from '../utils/logger';
 
+// Gather the values of an option given more than once
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 export class CLI {
   private program: Command;
   private logger: Logger;
@@ -30,6 +37,16 @@ export class CLI {
       .option('-m, --model <model>', 'LLM model to use')
       .option('-p, --provider <provider>', 'LLM provider to use')
       .option('-k, --api-key <key>', 'API key for LLM provider')
+      .option('--tags <expression>', 'Only run scenarios matching a tag expression, e.g. "smoke and not slow"')
+      .option('--soft-assertions', 'Keep running a scenario after a failed verification step')
+      .option('--step-timeout <ms>', 'Abort and fail a step taking longer than this many milliseconds')
+      .option('--teardown-timeout <ms>', 'Time teardown steps and after-hooks get once a scenario times out or its teardown starts (default: 30000)')
+      .option('-w, --workers <count>', 'Number of scenarios to run at once')
+      .option('--reporter <name>', 'Report progress with a built-in reporter (console, json) or a reporter module, repeatable', collect, [])
+      .option('--dry-run', 'Show how each step would run without running anything')
+      .option('--lockfile <path>', 'Lockfile step interpretations are recorded in and replayed from (default: craft-a-tester.lock.json)')
+      .option('--update-lock', 'Record how each passing step was interpreted in the lockfile')
+      .option('--locked', 'Replay step interpretations from the lockfile instead of asking the LLM')
       .action(runScenario);
     
     // Run all scenarios command
@@ -42,8 +59,33 @@ export class CLI {
       .option('-p, --provider <provider>', 'LLM provider to use')
       .option('-k, --api-key <key>', 'API key for LLM provider')
       .option('-r, --recursive', 'Search for scenarios recursively')
+      .option('--tags <expression>', 'Only run scenarios matching a tag expression, e.g. "smoke and not slow"')
+      .option('--soft-assertions', 'Keep running a scenario after a failed verification step')
+      .option('--step-timeout <ms>', 'Abort and fail a step taking longer than this many milliseconds')
+      .option('--teardown-timeout <ms>', 'Time teardown steps and after-hooks get once a scenario times out or its teardown starts (default: 30000)')
+      .option('-w, --workers <count>', 'Number of scenarios to run at once')
+      .option('--reporter <name>', 'Report progress with a built-in reporter (console, json) or a reporter module, repeatable', collect, [])
+      .option('--dry-run', 'Show how each step would run without running anything')
+      .option('--lockfile <path>', 'Lockfile step interpretations are recorded in and replayed from (default: craft-a-tester.lock.json)')
+      .option('--update-lock', 'Record how each passing step was interpreted in the lockfile')
+      .option('--locked', 'Replay step interpretations from the lockfile instead of asking the LLM')
       .action(runScenarios);
     
+    // Lint scenarios command
+    this.program
+      .command('lint <path>')
+      .description('Check scenario files for problems without running them')
+      .option('-r, --recursive', 'Search for scenarios recursively')
+      .action(lint);
+    
+    // Format scenarios command
+    this.program
+      .command('fmt <path>')
+      .description('Rewrite markdown scenario files in the canonical format')
+      .option('-r, --recursive', 'Search for scenarios recursively')
+      .option('--check', 'Only report files that are not formatted, without changing them')
+      .action(fmt);
+    
     // Initialize project command
     this.program
       .command('init')
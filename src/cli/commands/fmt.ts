@@ -0,0 +1,69 @@
+import * as fs from 'fs/promises';
+import { ScenarioParser } from '../../core/ScenarioParser';
+import { formatScenarioFile } from '../../core/ScenarioSerializer';
+import { findScenarios } from './run-scenarios';
+import { Logger } from '../../utils/logger';
+import chalk from 'chalk';
+
+export async function fmt(targetPath: string, options: any) {
+  const logger = new Logger('CLI');
+  
+  try {
+    // Format a single file, or every markdown scenario file in a directory
+    const stats = await fs.stat(targetPath);
+    const scenarioPaths = (stats.isDirectory()
+      ? await findScenarios(targetPath, options.recursive)
+      : [targetPath]
+    ).filter(scenarioPath => scenarioPath.endsWith('.md'));
+    
+    if (scenarioPaths.length === 0) {
+      console.error(chalk.red(`No markdown scenario files found in ${targetPath}`));
+      process.exit(1);
+    }
+    
+    const parser = new ScenarioParser();
+    let unformatted = 0;
+    let failed = 0;
+    
+    for (const scenarioPath of scenarioPaths) {
+      try {
+        const content = await fs.readFile(scenarioPath, 'utf-8');
+        
+        // Shared step files have no title and are formatted as part of no scenario
+        if (!/^# /m.test(content)) {
+          continue;
+        }
+        
+        const formatted = formatScenarioFile(content, scenarioPath, parser);
+        
+        if (formatted === content) {
+          continue;
+        }
+        
+        unformatted++;
+        
+        if (options.check) {
+          console.log(`${chalk.bold(scenarioPath)}: ${chalk.yellow('not formatted')}`);
+        } else {
+          await fs.writeFile(scenarioPath, formatted, 'utf-8');
+          console.log(`${chalk.bold(scenarioPath)}: formatted`);
+        }
+      } catch (error) {
+        failed++;
+        console.log(`${chalk.bold(scenarioPath)}: ${chalk.red('error')} ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    
+    if (options.check && unformatted > 0) {
+      console.log(chalk.red(`\n✖ ${unformatted} of ${scenarioPaths.length} files need formatting, run craft-a-tester fmt`));
+    } else if (failed === 0) {
+      console.log(chalk.green(`✔ ${scenarioPaths.length} scenario file${scenarioPaths.length === 1 ? '' : 's'} formatted`));
+    }
+    
+    // Exit with appropriate code
+    process.exit(failed > 0 || (options.check && unformatted > 0) ? 1 : 0);
+  } catch (error) {
+    logger.error('Error formatting scenarios:', error);
+    process.exit(1);
+  }
+}
@@ -1,4 +1,6 @@
 export { runScenario } from './run-scenario';
 export { runScenarios } from './run-scenarios';
 export { init } from './init';
+export { lint } from './lint';
+export { fmt } from './fmt';
 export { addRunTestsCommand } from './run-tests';
\ No newline at end of file
@@ -125,6 +125,14 @@ export async function init(options: any) {
           dbExample
         );
       }
+      
+      if (answers.testType === 'Mixed') {
+        const mixedExample = await getTemplateContent('mixed-example');
+        await fs.writeFile(
+          path.join(projectDir, 'tests', 'scenarios', 'signup-journey-test.md'),
+          mixedExample
+        );
+      }
     }
     
     spinner.succeed('Project initialized successfully!');
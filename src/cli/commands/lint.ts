@@ -0,0 +1,51 @@
+import * as fs from 'fs/promises';
+import { ScenarioParser } from '../../core/ScenarioParser';
+import { findScenarios } from './run-scenarios';
+import { Logger } from '../../utils/logger';
+import chalk from 'chalk';
+
+export async function lint(targetPath: string, options: any) {
+  const logger = new Logger('CLI');
+  
+  try {
+    // Lint a single file, or every scenario file in a directory
+    const stats = await fs.stat(targetPath);
+    const scenarioPaths = stats.isDirectory()
+      ? await findScenarios(targetPath, options.recursive)
+      : [targetPath];
+    
+    if (scenarioPaths.length === 0) {
+      console.error(chalk.red(`No scenario files found in ${targetPath}`));
+      process.exit(1);
+    }
+    
+    const parser = new ScenarioParser();
+    let problems = 0;
+    let failedFiles = 0;
+    
+    for (const scenarioPath of scenarioPaths) {
+      const diagnostics = await parser.lintFile(scenarioPath);
+      
+      if (diagnostics.length > 0) {
+        failedFiles++;
+        problems += diagnostics.length;
+      }
+      
+      for (const diagnostic of diagnostics) {
+        console.log(`${chalk.bold(`${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`)}: ${chalk.red('error')} ${diagnostic.message}`);
+      }
+    }
+    
+    if (problems > 0) {
+      console.log(chalk.red(`\n✖ ${problems} problem${problems === 1 ? '' : 's'} in ${failedFiles} of ${scenarioPaths.length} files`));
+    } else {
+      console.log(chalk.green(`✔ ${scenarioPaths.length} scenario file${scenarioPaths.length === 1 ? '' : 's'} passed lint`));
+    }
+    
+    // Exit with appropriate code
+    process.exit(problems === 0 ? 0 : 1);
+  } catch (error) {
+    logger.error('Error linting scenarios:', error);
+    process.exit(1);
+  }
+}
@@ -1,6 +1,6 @@
 import { TestExecutor } from '../../core/TestExecutor';
 import { loadConfig } from '../utils/config';
-import { formatResults } from '../utils/formatter';
+import { formatPlans, formatResults } from '../utils/formatter';
 import { Logger } from '../../utils/logger';
 import chalk from 'chalk';
 import ora from 'ora';
@@ -16,8 +16,17 @@ export async function runScenario(scenarioPath: string, options: any) {
     // Initialize test executor
     const executor = new TestExecutor(config);
     
-    // Initialize appropriate adapters based on config
-    await initializeAdapters(executor, config);
+    // Register appropriate adapters based on config; they're only initialized
+    // once scenarios run, so a dry run doesn't start them
+    await registerAdapters(executor, config);
+    
+    if (options.dryRun) {
+      spinner.text = `Planning scenario: ${scenarioPath}`;
+      const plans = await executor.planScenarios([scenarioPath]);
+      spinner.stop();
+      console.log(formatPlans(plans));
+      process.exit(plans.some(plan => plan.error || plan.steps.some(step => step.error)) ? 1 : 0);
+    }
     
     spinner.text = `Running scenario: ${scenarioPath}`;
     const results = await executor.runScenario(scenarioPath);
@@ -26,14 +35,16 @@ export async function runScenario(scenarioPath: string, options: any) {
     spinner.stop();
     console.log(formatResults(results));
     
-    if (results.success) {
-      console.log(chalk.green('✅ Test scenario passed!'));
+    if (results.failed === 0 && results.skipped) {
+      console.log(chalk.green(`✅ All ${results.passed} selected test scenarios passed (${results.skipped} skipped)`));
+    } else if (results.failed === 0) {
+      console.log(chalk.green(`✅ All ${results.total} test scenarios passed!`));
     } else {
-      console.log(chalk.red('❌ Test scenario failed!'));
+      console.log(chalk.red(`❌ ${results.failed} of ${results.total} test scenarios failed!`));
     }
     
     // Exit with appropriate code
-    process.exit(results.success ? 0 : 1);
+    process.exit(results.failed === 0 ? 0 : 1);
   } catch (error) {
     spinner.fail('Error running scenario');
     logger.error('Error running scenario:', error);
@@ -42,9 +53,9 @@ export async function runScenario(scenarioPath: string, options: any) {
 }
 
 /**
- * Helper function to initialize adapters based on config
+ * Helper function to register adapters based on config
  */
-async function initializeAdapters(executor: TestExecutor, config: any) {
+async function registerAdapters(executor: TestExecutor, config: any) {
   // Register LLM adapter
   if (config.llm?.provider === 'anthropic') {
     const { AnthropicAdapter } = await import('../../adapters/AnthropicAdapter');
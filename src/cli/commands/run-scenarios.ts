@@ -2,7 +2,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { TestExecutor } from '../../core/TestExecutor';
 import { loadConfig } from '../utils/config';
-import { formatResults } from '../utils/formatter';
+import { formatPlans, formatResults } from '../utils/formatter';
 import { Logger } from '../../utils/logger';
 import chalk from 'chalk';
 import ora from 'ora';
@@ -29,8 +29,17 @@ export async function runScenarios(directory: string, options: any) {
     // Initialize test executor
     const executor = new TestExecutor(config);
     
-    // Initialize appropriate adapters based on config
-    await initializeAdapters(executor, config);
+    // Register appropriate adapters based on config; they're only initialized
+    // once scenarios run, so a dry run doesn't start them
+    await registerAdapters(executor, config);
+    
+    if (options.dryRun) {
+      spinner.text = `Planning ${scenarioPaths.length} scenarios...`;
+      const plans = await executor.planScenarios(scenarioPaths);
+      spinner.stop();
+      console.log(formatPlans(plans));
+      process.exit(plans.some(plan => plan.error || plan.steps.some(step => step.error)) ? 1 : 0);
+    }
     
     // Run all scenarios
     spinner.text = `Running ${scenarioPaths.length} scenarios...`;
@@ -44,6 +53,7 @@ export async function runScenarios(directory: string, options: any) {
     console.log(`Total: ${results.total}`);
     console.log(`Passed: ${chalk.green(results.passed)}`);
     console.log(`Failed: ${chalk.red(results.failed)}`);
+    console.log(`Skipped: ${chalk.yellow(results.skipped || 0)}`);
     
     // Exit with appropriate code
     process.exit(results.failed === 0 ? 0 : 1);
@@ -54,7 +64,7 @@ export async function runScenarios(directory: string, options: any) {
   }
 }
 
-async function findScenarios(directory: string, recursive: boolean = false): Promise<string[]> {
+export async function findScenarios(directory: string, recursive: boolean = false): Promise<string[]> {
   const scenarioPaths: string[] = [];
   
   async function scanDirectory(dir: string) {
@@ -71,6 +81,9 @@ async function findScenarios(directory: string, recursive: boolean = false): Pro
         if (content.includes('## Scenario:') || content.includes('### Steps')) {
           scenarioPaths.push(fullPath);
         }
+      } else if (entry.isFile() && entry.name.endsWith('.feature')) {
+        // Gherkin feature files are always scenario files
+        scenarioPaths.push(fullPath);
       }
     }
   }
@@ -80,9 +93,9 @@ async function findScenarios(directory: string, recursive: boolean = false): Pro
 }
 
 /**
- * Helper function to initialize adapters based on config
+ * Helper function to register adapters based on config
  */
-async function initializeAdapters(executor: TestExecutor, config: any) {
+async function registerAdapters(executor: TestExecutor, config: any) {
   // Register LLM adapter
   if (config.llm?.provider === 'anthropic') {
     const { AnthropicAdapter } = await import('../../adapters/AnthropicAdapter');
@@ -2,6 +2,8 @@ import { Command } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs';
 import { createTestRunner, LLMAdapterType } from '../../core/TestRunner';
+import { createReporter } from '../../reporters';
+import { formatPlans } from '../utils/formatter';
 
 interface RunTestsOptions {
   adapter: LLMAdapterType;
@@ -15,6 +17,16 @@ interface RunTestsOptions {
   verbose?: boolean;
   timeout?: string;
   pattern?: string;
+  tags?: string;
+  softAssertions?: boolean;
+  stepTimeout?: string;
+  teardownTimeout?: string;
+  workers?: string;
+  reporter?: string[];
+  dryRun?: boolean;
+  lockfile?: string;
+  updateLock?: boolean;
+  locked?: boolean;
 }
 
 /**
@@ -39,6 +51,16 @@ export function addRunTestsCommand(program: Command): void {
     .option('-v, --verbose', 'Enable verbose output')
     .option('-t, --timeout <timeout>', 'Timeout for test execution in milliseconds', '60000')
     .option('-p, --pattern <pattern>', 'File pattern to match (default: "**/*.md")', '**/*.md')
+    .option('--tags <expression>', 'Only run scenarios matching a tag expression, e.g. "smoke and not slow"')
+    .option('--soft-assertions', 'Keep running a scenario after a failed verification step')
+    .option('--step-timeout <ms>', 'Abort and fail a step taking longer than this many milliseconds')
+    .option('--teardown-timeout <ms>', 'Time teardown steps and after-hooks get once a scenario times out or its teardown starts (default: 30000)')
+    .option('-w, --workers <count>', 'Number of scenarios to run at once', '1')
+    .option('--reporter <name>', 'Report progress with a built-in reporter (console, json) or a reporter module, repeatable', (value: string, previous: string[]) => [...previous, value], [])
+    .option('--dry-run', 'Show how each step would run without running anything')
+    .option('--lockfile <path>', 'Lockfile step interpretations are recorded in and replayed from', 'craft-a-tester.lock.json')
+    .option('--update-lock', 'Record how each passing step was interpreted in the lockfile')
+    .option('--locked', 'Replay step interpretations from the lockfile instead of asking the LLM')
     .action(async (directoryArg: string, options: RunTestsOptions) => {
       const directory = path.resolve(directoryArg);
       
@@ -64,9 +86,33 @@ export function addRunTestsCommand(program: Command): void {
         caching: options.caching,
         cachePath: options.cachePath,
         verbose: options.verbose,
-        timeout: options.timeout ? parseInt(options.timeout, 10) : 60000
+        timeout: options.timeout ? parseInt(options.timeout, 10) : 60000,
+        tags: options.tags,
+        softAssertions: options.softAssertions,
+        stepTimeout: options.stepTimeout ? parseInt(options.stepTimeout, 10) : undefined,
+        teardownTimeout: options.teardownTimeout ? parseInt(options.teardownTimeout, 10) : undefined,
+        workers: options.workers ? parseInt(options.workers, 10) : 1,
+        reporters: options.reporter?.map(reporter => createReporter(reporter)),
+        lockfile: options.lockfile,
+        updateLock: options.updateLock,
+        locked: options.locked
       });
       
+      // A dry run only plans, so no adapter is initialized or cleaned up
+      if (options.dryRun) {
+        try {
+          console.log(`Planning tests in ${directory} with pattern ${options.pattern || '**/*.md'}...`);
+          const plans = await runner.planTestDirectory(directory, options.pattern);
+          console.log(formatPlans(plans));
+          process.exit(plans.some(plan => plan.error || plan.steps.some(step => step.error)) ? 1 : 0);
+        } catch (error) {
+          console.error('Test planning failed:', error);
+          process.exit(1);
+        }
+      }
+      
+      let exitCode = 1;
+      
       try {
         // Initialize the runner
         await runner.initialize();
@@ -76,23 +122,27 @@ export function addRunTestsCommand(program: Command): void {
         const results = await runner.runTestDirectory(directory, options.pattern);
         
         // Calculate summary
-        const totalTests = Object.keys(results).length;
-        const passedTests = Object.values(results).filter(r => r.passed).length;
-        const failedTests = totalTests - passedTests;
+        const totalTests = Object.values(results).reduce((sum, r) => sum + r.total, 0);
+        const passedTests = Object.values(results).reduce((sum, r) => sum + r.passed, 0);
+        const skippedTests = Object.values(results).reduce((sum, r) => sum + (r.skipped || 0), 0);
+        const failedTests = totalTests - passedTests - skippedTests;
         
         console.log('\n=== Test Summary ===');
         console.log(`Total tests: ${totalTests}`);
         console.log(`Passed tests: ${passedTests}`);
         console.log(`Failed tests: ${failedTests}`);
+        console.log(`Skipped tests: ${skippedTests}`);
         
         // Set exit code based on test results
-        process.exit(failedTests > 0 ? 1 : 0);
+        exitCode = failedTests > 0 ? 1 : 0;
       } catch (error) {
         console.error('Test execution failed:', error);
-        process.exit(1);
       } finally {
         // Clean up
         await runner.cleanup();
       }
+      
+      // Exit only once the adapters are cleaned up
+      process.exit(exitCode);
     });
 }
\ No newline at end of file
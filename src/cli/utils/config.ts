@@ -65,6 +65,39 @@ export async function loadConfig(
         ...(cliOptions.apiKey && { apiKey: cliOptions.apiKey })
       };
     }
+    
+    if (cliOptions.tags) {
+      config.execution = { ...config.execution, tags: cliOptions.tags };
+    }
+    
+    if (cliOptions.softAssertions) {
+      config.execution = { ...config.execution, softAssertions: true };
+    }
+    
+    if (cliOptions.stepTimeout) {
+      config.execution = { ...config.execution, stepTimeout: parseInt(cliOptions.stepTimeout, 10) };
+    }
+    
+    if (cliOptions.teardownTimeout) {
+      config.execution = { ...config.execution, teardownTimeout: parseInt(cliOptions.teardownTimeout, 10) };
+    }
+    
+    if (cliOptions.workers) {
+      config.execution = { ...config.execution, workers: parseInt(cliOptions.workers, 10) };
+    }
+    
+    if (cliOptions.lockfile || cliOptions.updateLock || cliOptions.locked) {
+      config.execution = {
+        ...config.execution,
+        ...(cliOptions.lockfile && { lockfile: cliOptions.lockfile }),
+        ...(cliOptions.updateLock && { updateLock: true }),
+        ...(cliOptions.locked && { locked: true })
+      };
+    }
+    
+    if (cliOptions.reporter?.length) {
+      config.reporting = { ...config.reporting, reporters: cliOptions.reporter };
+    }
   }
   
   // Load API keys from environment if not provided
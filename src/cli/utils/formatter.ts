@@ -1,5 +1,7 @@
 import chalk from 'chalk';
-import { TestResult, TestResults } from '../../types/results';
+import { ScenarioPlan, StepPhase, StepPlan, TestResult, TestResults } from '../../types/results';
+import { SourceLocation } from '../../types/scenario';
+import { formatLocation } from '../../utils/location';
 
 export function formatResults(results: TestResult | TestResults): string {
   if ('total' in results) {
@@ -9,27 +11,132 @@ export function formatResults(results: TestResult | TestResults): string {
   }
 }
 
+/**
+ * Format the plans of a dry run: how each step would run
+ */
+export function formatPlans(plans: ScenarioPlan[]): string {
+  const output: string[] = [];
+  
+  for (const plan of plans) {
+    const file = plan.filePath ? chalk.dim(` (${plan.filePath})`) : '';
+    output.push(chalk.bold(`\nScenario: ${plan.scenarioTitle}`) + file);
+    
+    if (plan.example) {
+      const values = Object.entries(plan.example.values)
+        .map(([name, value]) => `${name}=${value}`)
+        .join(', ');
+      output.push(`Example #${plan.example.index}: ${values}`);
+    }
+    
+    if (plan.skipped) {
+      output.push(`${chalk.yellow('SKIP')} ${chalk.dim(plan.skipReason || '')}`);
+      continue;
+    }
+    
+    if (plan.error) {
+      output.push(`${chalk.red('Error:')} ${plan.error}`);
+      continue;
+    }
+    
+    plan.steps.forEach((step, index) => {
+      const testType = step.testType ? chalk.dim(` → ${step.testType}`) : '';
+      output.push(`${index + 1}. ${formatPhase(step.phase)}${step.step}${testType}`);
+      output.push(...formatStepPlan(step).map(line => `   ${line}`));
+    });
+  }
+  
+  const planned = plans.filter(plan => !plan.skipped);
+  const steps = planned.reduce((count, plan) => count + plan.steps.length, 0);
+  const unplanned = planned.reduce((count, plan) => count + plan.steps.filter(step => step.error).length, 0);
+  const unrunnable = planned.filter(plan => plan.error).length;
+  const skipped = plans.length - planned.length;
+  output.push(chalk.bold(`\nDry run: ${planned.length} scenarios, ${steps} steps, nothing executed${skipped ? ` (${skipped} skipped)` : ''}`));
+  if (unrunnable > 0) {
+    output.push(chalk.red(`${unrunnable} scenarios cannot be run`));
+  }
+  if (unplanned > 0) {
+    output.push(chalk.red(`${unplanned} steps cannot be run`));
+  }
+  
+  return output.join('\n');
+}
+
+function formatStepPlan(step: StepPlan): string[] {
+  if (step.error) {
+    return [`${chalk.red('Error:')} ${step.error}`, ...formatStepLocation(step.location, step.includedFrom).map(line => line.trim())];
+  }
+  
+  const lines: string[] = [];
+  const { resolution } = step;
+  const interpretation = resolution?.interpretation;
+  
+  if (resolution?.capability) {
+    const confidence = resolution.confidence !== undefined ? ` (confidence: ${resolution.confidence.toFixed(2)})` : '';
+    lines.push(`Capability: ${resolution.capability}${confidence}`);
+    lines.push(`Parameters: ${JSON.stringify(interpretation ?? [])}`);
+  } else if (interpretation?.method && interpretation?.url) {
+    lines.push(`Request: ${interpretation.method} ${interpretation.url}`);
+    if (interpretation.body !== undefined) {
+      lines.push(`Body: ${JSON.stringify(interpretation.body)}`);
+    }
+  } else if (interpretation?.sql) {
+    lines.push(`SQL: ${interpretation.sql}`);
+    if (interpretation.params?.length) {
+      lines.push(`Params: ${JSON.stringify(interpretation.params)}`);
+    }
+  } else if (interpretation?.actionType) {
+    lines.push(`UI action: ${JSON.stringify(interpretation)}`);
+  } else if (interpretation !== undefined) {
+    lines.push(`Checks: ${typeof interpretation === 'string' ? interpretation : JSON.stringify(interpretation)}`);
+  } else {
+    lines.push(chalk.dim('Nothing to run'));
+  }
+  
+  if (resolution?.adapter) {
+    lines[0] += chalk.dim(` [${resolution.adapter}]`);
+  }
+  
+  const settings = [
+    ...(step.retries > 0 ? [`${step.retries} retries`] : []),
+    ...(step.timeout ? [`timeout ${formatDuration(step.timeout)}`] : []),
+    ...(step.capture ? [`saves ${step.capture}`] : [])
+  ];
+  if (settings.length > 0) {
+    lines.push(chalk.dim(settings.join(', ')));
+  }
+  
+  return lines;
+}
+
 function formatTestResult(result: TestResult): string {
   const output = [
     chalk.bold(`\nTest Scenario: ${result.scenarioTitle || 'Untitled'}`),
-    `Status: ${(result.success || result.passed) ? chalk.green('PASS') : chalk.red('FAIL')}`,
+    `Status: ${formatStatus(result)}`,
     `Duration: ${formatDuration(result.duration)}`,
     `Started: ${result.startTime ? result.startTime.toLocaleTimeString() : 'N/A'}`,
     `Ended: ${result.endTime ? result.endTime.toLocaleTimeString() : 'N/A'}`,
     '\nStep Results:'
   ];
   
+  if (result.example) {
+    const values = Object.entries(result.example.values)
+      .map(([name, value]) => `${name}=${value}`)
+      .join(', ');
+    output.splice(output.length - 1, 0, `Example #${result.example.index}: ${values}`);
+  }
+  
   // Handle both step types
   if (result.stepResults && result.stepResults.length > 0) {
     result.stepResults.forEach((step, index) => {
-      const status = step.success 
-        ? chalk.green('✓') 
-        : chalk.red('✗');
+      const status = step.skipped
+        ? chalk.yellow('⚠')
+        : step.success ? chalk.green('✓') : chalk.red('✗');
       
-      output.push(`${index + 1}. ${status} ${step.step} (${formatDuration(step.duration)})`);
+      output.push(`${index + 1}. ${status} ${formatPhase(step.phase)}${step.step} (${[formatDuration(step.duration), ...formatAttempts(step.attempts)].join(', ')})`);
       
       if (!step.success && step.error) {
         output.push(`   ${chalk.red('Error:')} ${step.error}`);
+        output.push(...formatStepLocation(step.location, step.includedFrom));
       }
     });
   } else if (result.steps && result.steps.length > 0) {
@@ -38,10 +145,11 @@ function formatTestResult(result: TestResult): string {
         ? chalk.green('✓') 
         : step.status === 'failed' ? chalk.red('✗') : chalk.yellow('⚠');
       
-      output.push(`${index + 1}. ${status} ${step.description}`);
+      output.push(`${index + 1}. ${status} ${formatPhase(step.phase)}${step.description}${formatAttempts(step.attempts).map(attempts => ` (${attempts})`).join('')}`);
       
       if (step.status === 'failed' && step.error) {
         output.push(`   ${chalk.red('Error:')} ${step.error}`);
+        output.push(...formatStepLocation(step.location, step.includedFrom));
       }
     });
   }
@@ -51,6 +159,16 @@ function formatTestResult(result: TestResult): string {
     output.push(`\n${chalk.red('Error:')} ${result.error}`);
   }
   
+  if (result.teardownErrors) {
+    output.push(`\n${chalk.red('Teardown errors:')}`, ...result.teardownErrors.map(teardownError => `  ${teardownError}`));
+  }
+  
+  // Saved variables help explain a failure in a later step
+  const variables = formatVariables(result, '  ');
+  if (variables.length > 0) {
+    output.push(`\n${chalk.bold('Variables:')}`, ...variables);
+  }
+  
   return output.join('\n');
 }
 
@@ -60,21 +178,62 @@ function formatTestResults(results: TestResults): string {
     `Total Scenarios: ${results.total}`,
     `Passed: ${chalk.green(results.passed)}`,
     `Failed: ${chalk.red(results.failed)}`,
+    `Skipped: ${chalk.yellow(results.skipped || 0)}`,
     `Total Duration: ${formatDuration(results.duration)}`,
     '\nScenario Results:'
   ];
   
   results.results.forEach((result, index) => {
-    const status = result.success 
-      ? chalk.green('PASS') 
-      : chalk.red('FAIL');
+    output.push(`${index + 1}. ${result.scenarioTitle}: ${formatStatus(result)} (${formatDuration(result.duration)})`);
+    
+    if (result.skipped && result.skipReason) {
+      output.push(`   ${chalk.dim(result.skipReason)}`);
+    }
     
-    output.push(`${index + 1}. ${result.scenarioTitle}: ${status} (${formatDuration(result.duration)})`);
+    output.push(...formatVariables(result, '   '));
   });
   
   return output.join('\n');
 }
 
+function formatVariables(result: TestResult, indent: string): string[] {
+  const failed = !(result.success || result.passed) && !result.skipped;
+  if (!failed || !result.variables) {
+    return [];
+  }
+  
+  return Object.entries(result.variables)
+    .map(([name, value]) => `${indent}${chalk.dim(`${name} = ${JSON.stringify(value)}`)}`);
+}
+
+function formatStatus(result: TestResult): string {
+  if (result.skipped) {
+    return chalk.yellow('SKIP');
+  }
+  
+  return (result.success || result.passed) ? chalk.green('PASS') : chalk.red('FAIL');
+}
+
+function formatPhase(phase: StepPhase | undefined): string {
+  // Steps of the scenario itself are shown without a label
+  return phase && phase !== 'scenario' ? chalk.dim(`[${phase}] `) : '';
+}
+
+function formatAttempts(attempts: number | undefined): string[] {
+  // Only retried steps mention their attempts
+  return attempts && attempts > 1 ? [`${attempts} attempts`] : [];
+}
+
+function formatStepLocation(location: SourceLocation | undefined, includedFrom?: SourceLocation): string[] {
+  const lines = location ? [chalk.dim(`   at ${formatLocation(location)}`)] : [];
+  
+  if (includedFrom) {
+    lines.push(chalk.dim(`   included from ${formatLocation(includedFrom)}`));
+  }
+  
+  return lines;
+}
+
 function formatDuration(ms: number | undefined): string {
   if (ms === undefined) {
     return '0ms';
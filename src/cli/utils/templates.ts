@@ -89,6 +89,31 @@ export async function getTemplateContent(templateName: string): Promise<string>
     - name: "Jane Doe"
 `;
     
+    case 'mixed-example':
+      return `# User Signup Journey
+
+## Context
+- Type: Mixed
+- Environment: Test
+- BaseURL: https://api.example.com
+
+## Scenario: Sign up through the API and log in
+
+### Steps
+
+1. **When** [api] I send a POST request to "/users" with body:
+   {
+     "name": "New User",
+     "email": "newuser@example.com",
+     "password": "password123"
+   }
+2. **Then** the response status should be 201
+3. **And** save response body.id as userId
+4. **Then** [db] the users table should have a row with id \${userId}
+5. **When** [ui] I log in as "newuser@example.com" with password "password123"
+6. **Then** I should see a welcome message with the name "New User"
+`;
+    
     default:
       throw new Error(`Unknown template: ${templateName}`);
   }
@@ -1,8 +1,14 @@
-import { AddonCapability, CapabilityFeedback, CapabilityRegistry as ICapabilityRegistry } from '../types/addon';
+import {
+  AddonCapability,
+  CapabilityFeedback,
+  CapabilityRegistry as ICapabilityRegistry,
+  TestTypeDefinition
+} from '../types/addon';
 import { BaseAdapter } from '../adapters/BaseAdapter';
 import { LLMAdapter } from '../adapters/LLMAdapter';
 import { VectorStore } from '../utils/VectorStore';
 import { SimpleEmbedding } from '../utils/SimpleEmbedding';
+import { TestTypeRegistry } from './TestTypeRegistry';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -20,6 +26,11 @@ export class CapabilityRegistry implements ICapabilityRegistry {
    */
   private capabilities: Map<string, AddonCapability> = new Map();
   
+  /**
+   * Test types scenarios can declare, including those added by addons
+   */
+  private testTypes: TestTypeRegistry = new TestTypeRegistry();
+  
   /**
    * LLM adapter for resolving capabilities
    */
@@ -150,6 +161,25 @@ export class CapabilityRegistry implements ICapabilityRegistry {
     return Array.from(this.capabilities.values());
   }
   
+  /**
+   * Register a test type, with the adapters that run it
+   */
+  registerTestType(definition: TestTypeDefinition): void {
+    if (this.testTypes.resolve(definition.name)) {
+      console.warn(`Overwriting existing test type ${definition.name}`);
+    }
+    
+    this.testTypes.register(definition);
+    console.log(`Registered test type ${definition.name}`);
+  }
+  
+  /**
+   * Get the registered test types
+   */
+  getTestTypes(): TestTypeRegistry {
+    return this.testTypes;
+  }
+  
   /**
    * Get capability context for LLM
    */
@@ -187,8 +217,10 @@ export class CapabilityRegistry implements ICapabilityRegistry {
   
   /**
    * Find capability for action using LLM or vector cache
+   * @param description The step to find a capability for
+   * @param signal Aborts the LLM request
    */
-  async findCapabilityForAction(description: string): Promise<{
+  async findCapabilityForAction(description: string, signal?: AbortSignal): Promise<{
     capability: AddonCapability;
     parameters: any[];
     confidence: number;
@@ -219,7 +251,7 @@ export class CapabilityRegistry implements ICapabilityRegistry {
     const prompt = this.buildCapabilityResolutionPrompt(description);
     
     try {
-      const response = await this.llmAdapter.complete(prompt);
+      const response = await this.llmAdapter.complete(prompt, signal);
       const result = this.parseCapabilityResolutionResponse(response);
       
       // Cache the result if successful
@@ -229,6 +261,9 @@ export class CapabilityRegistry implements ICapabilityRegistry {
       
       return result;
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       console.error('Error resolving capability:', error);
       return null;
     }
@@ -357,8 +392,8 @@ ${context}
 
 ## Task
 
-1. Analyze the test step and find the most appropriate capability.
-2. Determine what parameters should be passed to the capability.
+1. Analyze the test step and find the most appropriate capability. The step may be written in any language.
+2. Determine what parameters should be passed to the capability, keeping quoted values exactly as written.
 3. Provide your confidence level (0.0 to 1.0) in this match.
 
 Format your response as a JSON object with the following structure:
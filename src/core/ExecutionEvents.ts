@@ -0,0 +1,55 @@
+import { EventEmitter } from 'events';
+import { ExecutionEventMap, Reporter } from '../types/reporter';
+import { Logger } from '../utils/logger';
+
+type Listener<K extends keyof ExecutionEventMap> = (event: ExecutionEventMap[K]) => void;
+
+/**
+ * Emits events as tests run, for reporters and anything else following a run live
+ */
+export class ExecutionEvents {
+  private emitter = new EventEmitter();
+  private logger = new Logger('ExecutionEvents');
+  
+  /**
+   * Listen to an event
+   */
+  on<K extends keyof ExecutionEventMap>(name: K, listener: Listener<K>): this {
+    this.emitter.on(name, listener);
+    return this;
+  }
+  
+  /**
+   * Stop listening to an event
+   */
+  off<K extends keyof ExecutionEventMap>(name: K, listener: Listener<K>): this {
+    this.emitter.off(name, listener);
+    return this;
+  }
+  
+  /**
+   * Call the listeners of an event in the order they were added. A failing
+   * listener is logged and doesn't affect the run or the other listeners.
+   */
+  emit<K extends keyof ExecutionEventMap>(name: K, event: ExecutionEventMap[K]): void {
+    for (const listener of this.emitter.listeners(name) as Listener<K>[]) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.warn(`A ${name} listener failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+  
+  /**
+   * Send every event to a reporter
+   */
+  addReporter(reporter: Reporter): void {
+    this.on('runStart', event => reporter.onRunStart?.(event));
+    this.on('scenarioStart', event => reporter.onScenarioStart?.(event));
+    this.on('stepStart', event => reporter.onStepStart?.(event));
+    this.on('stepEnd', event => reporter.onStepEnd?.(event));
+    this.on('scenarioEnd', event => reporter.onScenarioEnd?.(event));
+    this.on('runEnd', event => reporter.onRunEnd?.(event));
+  }
+}
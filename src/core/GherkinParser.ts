@@ -0,0 +1,381 @@
+import { Feature, Scenario, ScenarioContext, ScenarioStep, StepType, TestType } from '../types/scenario';
+import { expandOutline } from './ScenarioOutline';
+import { addCodeBlock, tableToRecords } from './StepDetails';
+import { TestTypeRegistry } from './TestTypeRegistry';
+
+/**
+ * A scenario or scenario outline as written in the feature file
+ */
+interface GherkinScenario {
+  title: string;
+  lineNumber: number;
+  description: string[];
+  tags: string[];
+  steps: ScenarioStep[];
+  background: ScenarioStep[];
+  outline: boolean;
+  examples: GherkinExamples[];
+}
+
+/**
+ * An Examples table of a scenario outline
+ */
+interface GherkinExamples {
+  tags: string[];
+  rows: string[][];
+}
+
+const STEP_KEYWORDS: Record<string, StepType> = {
+  'Given': 'given',
+  'When': 'when',
+  'Then': 'then',
+  'And': 'and',
+  'But': 'and',
+  '*': 'and'
+};
+
+/**
+ * Parser for Cucumber/Gherkin `.feature` files, producing the same
+ * scenario structure as the markdown format
+ */
+export class GherkinParser {
+  constructor(private testTypes: TestTypeRegistry = new TestTypeRegistry()) {}
+
+  /**
+   * Check whether content looks like a Gherkin feature file
+   * @param content The file content
+   */
+  static isGherkin(content: string): boolean {
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#') || line.startsWith('@')) continue;
+      return /^Feature:/.test(line);
+    }
+
+    return false;
+  }
+
+  /**
+   * Parse a feature file
+   * @param content The feature file content
+   * @param filePath The path the content was read from
+   * @returns The parsed feature
+   */
+  parse(content: string, filePath: string = 'memory'): Feature {
+    const lines = content.split(/\r?\n/);
+
+    let title = 'Untitled Feature';
+    const featureDescription: string[] = [];
+    let featureTags: string[] = [];
+    let featureBackground: ScenarioStep[] = [];
+    let ruleBackground: ScenarioStep[] = [];
+    let ruleTags: string[] = [];
+
+    const parsedScenarios: GherkinScenario[] = [];
+
+    let pendingTags: string[] = [];
+    let section: 'none' | 'feature' | 'background' | 'rule' | 'scenario' | 'examples' = 'none';
+    let backgroundTarget: 'feature' | 'rule' = 'feature';
+    let currentScenario: GherkinScenario | null = null;
+    let currentExamples: GherkinExamples | null = null;
+    let lastStep: ScenarioStep | null = null;
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index].trim();
+      const lineNumber = index + 1;
+
+      if (!line || line.startsWith('#')) {
+        continue;
+      }
+
+      // Tags apply to the next Feature, Rule, Scenario or Examples
+      if (line.startsWith('@')) {
+        pendingTags.push(...this.parseTags(line));
+        continue;
+      }
+
+      const keywordMatch = line.match(/^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/);
+
+      if (keywordMatch) {
+        const [, keyword, name] = keywordMatch;
+        lastStep = null;
+
+        switch (keyword) {
+          case 'Feature':
+            title = name.trim() || title;
+            featureTags = pendingTags;
+            section = 'feature';
+            break;
+
+          case 'Rule':
+            ruleTags = pendingTags;
+            ruleBackground = [];
+            currentScenario = null;
+            section = 'rule';
+            break;
+
+          case 'Background':
+            backgroundTarget = section === 'rule' ? 'rule' : 'feature';
+            currentScenario = null;
+            section = 'background';
+            break;
+
+          case 'Examples':
+          case 'Scenarios':
+            if (!currentScenario) {
+              throw new Error(`${filePath}:${lineNumber}: Examples must belong to a Scenario Outline`);
+            }
+            currentExamples = { tags: pendingTags, rows: [] };
+            currentScenario.examples.push(currentExamples);
+            section = 'examples';
+            break;
+
+          default:
+            currentScenario = {
+              title: name.trim(),
+              lineNumber,
+              description: [],
+              tags: [...featureTags, ...ruleTags, ...pendingTags],
+              steps: [],
+              background: [...featureBackground, ...ruleBackground],
+              outline: keyword === 'Scenario Outline' || keyword === 'Scenario Template',
+              examples: []
+            };
+            parsedScenarios.push(currentScenario);
+            section = 'scenario';
+        }
+
+        pendingTags = [];
+        continue;
+      }
+
+      const stepMatch = line.match(/^(Given|When|Then|And|But|\*)\s+(.*)$/);
+
+      if (stepMatch && (section === 'background' || section === 'scenario')) {
+        const [, keyword, text] = stepMatch;
+        const column = lines[index].indexOf(keyword) + 1;
+        lastStep = {
+          type: STEP_KEYWORDS[keyword],
+          instruction: text.trim(),
+          lineNumber,
+          location: {
+            file: filePath,
+            line: lineNumber,
+            column,
+            endLine: lineNumber,
+            endColumn: lines[index].trimEnd().length + 1
+          }
+        };
+
+        if (section === 'background') {
+          if (backgroundTarget === 'rule') {
+            ruleBackground.push(lastStep);
+          } else {
+            featureBackground.push(lastStep);
+          }
+        } else {
+          currentScenario!.steps.push(lastStep);
+        }
+        continue;
+      }
+
+      // Doc string attached to the previous step
+      if (line.startsWith('"""') || line.startsWith('```')) {
+        if (!lastStep) {
+          throw new Error(`${filePath}:${lineNumber}: Doc string must follow a step`);
+        }
+
+        const delimiter = line.substring(0, 3);
+        const indentation = lines[index].indexOf(delimiter);
+        const mediaType = line.substring(3).trim() || undefined;
+        const docLines: string[] = [];
+
+        index++;
+        while (index < lines.length && lines[index].trim() !== delimiter) {
+          docLines.push(this.removeIndentation(lines[index], indentation));
+          index++;
+        }
+
+        if (index >= lines.length) {
+          throw new Error(`${filePath}:${lineNumber}: Unterminated doc string`);
+        }
+
+        this.extendLocation(lastStep, index + 1, lines[index]);
+
+        const docString = docLines.join('\n');
+        lastStep.details = { ...lastStep.details, docString: { content: docString, mediaType } };
+        addCodeBlock(lastStep.details, docString, mediaType);
+        lastStep.instruction += `\n${docString}`;
+        continue;
+      }
+
+      // Data table attached to the previous step, or an Examples table
+      if (line.startsWith('|')) {
+        const cells = this.parseTableRow(line);
+
+        if (section === 'examples' && currentExamples) {
+          currentExamples.rows.push(cells);
+        } else if (lastStep) {
+          const dataTable: string[][] = lastStep.details?.dataTable || [];
+          dataTable.push(cells);
+          this.extendLocation(lastStep, lineNumber, lines[index]);
+          lastStep.details = { ...lastStep.details, dataTable, table: tableToRecords(dataTable) };
+          lastStep.instruction += `\n${line}`;
+        } else {
+          throw new Error(`${filePath}:${lineNumber}: Data table must follow a step`);
+        }
+        continue;
+      }
+
+      // Anything else is free-form description text
+      if (section === 'feature') {
+        featureDescription.push(line);
+      } else if (section === 'scenario' && currentScenario && currentScenario.steps.length === 0) {
+        currentScenario.description.push(line);
+      }
+    }
+
+    const context = this.extractContext(featureDescription);
+    const testType = this.resolveTestType(context, lines, filePath);
+    const description = featureDescription.filter(line => !line.startsWith('- ')).join('\n') || undefined;
+
+    const scenarios: Scenario[] = [];
+
+    for (const parsed of parsedScenarios) {
+      const base: Scenario = {
+        title: parsed.title,
+        location: {
+          file: filePath,
+          line: parsed.lineNumber,
+          column: lines[parsed.lineNumber - 1].indexOf(lines[parsed.lineNumber - 1].trim()) + 1,
+          endLine: parsed.lineNumber,
+          endColumn: lines[parsed.lineNumber - 1].trimEnd().length + 1
+        },
+        description: parsed.description.join('\n') || undefined,
+        context,
+        steps: parsed.steps,
+        background: parsed.background.length > 0 ? parsed.background : undefined,
+        testType,
+        filePath,
+        feature: title,
+        tags: this.unique(parsed.tags)
+      };
+
+      if (parsed.outline) {
+        scenarios.push(...this.expandOutline(base, parsed));
+      } else {
+        scenarios.push(base);
+      }
+    }
+
+    return {
+      title,
+      description,
+      context,
+      background: featureBackground.length > 0 ? featureBackground : undefined,
+      scenarios,
+      testType,
+      filePath,
+      tags: this.unique(featureTags)
+    };
+  }
+
+  /**
+   * Expand a scenario outline into one scenario per row of its Examples tables
+   */
+  private expandOutline(base: Scenario, parsed: GherkinScenario): Scenario[] {
+    const scenarios: Scenario[] = [];
+
+    for (const examples of parsed.examples) {
+      const [header, ...rows] = examples.rows;
+      if (!header) continue;
+
+      const records = rows.map(row => {
+        const values: Record<string, string> = {};
+        header.forEach((name, column) => {
+          values[name] = row[column] ?? '';
+        });
+        return values;
+      });
+
+      scenarios.push(...expandOutline(base, records, {
+        tags: examples.tags,
+        startIndex: scenarios.length + 1
+      }));
+    }
+
+    return scenarios;
+  }
+
+  /**
+   * Read `- key: value` lines in the feature description as scenario context,
+   * mirroring the markdown `## Context` section
+   */
+  private extractContext(descriptionLines: string[]): ScenarioContext {
+    const context: ScenarioContext = {};
+
+    for (const line of descriptionLines) {
+      const itemMatch = line.match(/^- (.+?): (.+)$/);
+      if (itemMatch) {
+        const [, key, value] = itemMatch;
+        context[key.trim()] = value.trim();
+      }
+    }
+
+    return context;
+  }
+
+  private resolveTestType(context: ScenarioContext, lines: string[], filePath: string): TestType {
+    const type = String(context.Type || context.type || '').trim();
+
+    if (!type) {
+      return 'generic';
+    }
+
+    try {
+      return this.testTypes.resolveName(type);
+    } catch (error) {
+      const typeLine = lines.findIndex(line => /^\s*-\s*Type:/i.test(line)) + 1;
+      throw new Error(`${filePath}:${typeLine || 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Grow a step's location to cover a doc string or table line below it
+   */
+  private extendLocation(step: ScenarioStep, lineNumber: number, line: string): void {
+    if (step.location) {
+      step.location.endLine = lineNumber;
+      step.location.endColumn = line.trimEnd().length + 1;
+    }
+  }
+
+  private parseTags(line: string): string[] {
+    return line
+      .replace(/\s#.*$/, '')
+      .split(/\s+/)
+      .filter(tag => tag.startsWith('@'))
+      .map(tag => tag.substring(1));
+  }
+
+  private parseTableRow(line: string): string[] {
+    const inner = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+
+    return inner
+      .split(/(?<!\\)\|/)
+      .map(cell => cell
+        .trim()
+        .replace(/\\\|/g, '|')
+        .replace(/\\n/g, '\n')
+        .replace(/\\\\/g, '\\'));
+  }
+
+  private removeIndentation(line: string, indentation: number): string {
+    const leading = line.length - line.trimStart().length;
+    return line.substring(Math.min(leading, indentation));
+  }
+
+  private unique(tags: string[]): string[] {
+    return Array.from(new Set(tags));
+  }
+}
@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScenarioStep } from '../types/scenario';
+import { InterpretationLock, hashStep } from './InterpretationLock';
+
+describe('InterpretationLock', () => {
+  const step: ScenarioStep = { type: 'when', instruction: 'I send a GET request to "/users/1"' };
+  let directory: string;
+  let lockfile: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'craft-a-tester-lock-'));
+    lockfile = path.join(directory, 'craft-a-tester.lock.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads back what it recorded, keyed by the scenario file relative to the lockfile', () => {
+    const lock = new InterpretationLock(lockfile);
+    lock.record(path.join(directory, 'scenarios/users.md'), step, {
+      step: 'when I send a GET request to "/users/1"',
+      testType: 'api',
+      resolution: { adapter: 'api', interpretation: { method: 'GET', url: '/users/1' } }
+    });
+    lock.save();
+
+    const contents = JSON.parse(fs.readFileSync(lockfile, 'utf-8'));
+    expect(Object.keys(contents.scenarios)).toEqual(['scenarios/users.md']);
+
+    const reloaded = new InterpretationLock(lockfile);
+    reloaded.load();
+    expect(reloaded.get(path.join(directory, 'scenarios/users.md'), step)).toMatchObject({
+      testType: 'api',
+      resolution: { interpretation: { method: 'GET', url: '/users/1' } }
+    });
+  });
+
+  it('does not find a step whose text changed', () => {
+    const lock = new InterpretationLock(lockfile);
+    lock.record('users.md', step, { step: 'when ...', testType: 'api', resolution: { adapter: 'api' } });
+
+    expect(lock.get('users.md', { ...step, instruction: 'I send a GET request to "/users/2"' })).toBeUndefined();
+    expect(hashStep({ ...step, type: 'then' })).not.toBe(hashStep(step));
+  });
+
+  it('does not write the lockfile when nothing was recorded', () => {
+    new InterpretationLock(lockfile).save();
+
+    expect(fs.existsSync(lockfile)).toBe(false);
+  });
+
+  it('rejects a lockfile of another version', () => {
+    fs.writeFileSync(lockfile, JSON.stringify({ version: 99, scenarios: {} }));
+
+    expect(() => new InterpretationLock(lockfile).load()).toThrow('unsupported lockfile version 99, expected 1');
+  });
+});
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ScenarioStep, TestType } from '../types/scenario';
+import { StepResolution } from '../types/results';
+
+/**
+ * Default name of the lockfile, in the working directory
+ */
+export const DEFAULT_LOCKFILE = 'craft-a-tester.lock.json';
+
+const LOCKFILE_VERSION = 1;
+
+/**
+ * How a step was interpreted when it last passed
+ */
+export interface LockedStep {
+  // The step as written, to tell which step an entry belongs to
+  step: string;
+  // Test type the step was routed to
+  testType: TestType;
+  // Values saved by earlier steps are kept as `${name}` references
+  resolution: StepResolution;
+}
+
+interface LockfileContents {
+  version: number;
+  // Locked steps by scenario file, relative to the lockfile, then by step hash
+  scenarios: Record<string, Record<string, LockedStep>>;
+}
+
+/**
+ * Hash a step as written: its keyword, instruction and details. Any change
+ * to them gives the step a new hash, so its old interpretation isn't used.
+ */
+export function hashStep(step: ScenarioStep): string {
+  return createHash('sha256')
+    .update(JSON.stringify([step.type, step.instruction, step.details ?? null]))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Interpretations of steps, recorded in a lockfile meant to be committed and
+ * replayed so runs don't depend on what the LLM answers that day
+ */
+export class InterpretationLock {
+  private filePath: string;
+  private scenarios: Record<string, Record<string, LockedStep>> = {};
+  private changed = false;
+
+  constructor(filePath: string = DEFAULT_LOCKFILE) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Read the lockfile, if it exists
+   * @throws If the lockfile isn't valid
+   */
+  load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    let contents: LockfileContents;
+    try {
+      contents = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`${this.filePath}: invalid lockfile: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (contents.version !== LOCKFILE_VERSION || !contents.scenarios || typeof contents.scenarios !== 'object') {
+      throw new Error(`${this.filePath}: unsupported lockfile version ${contents.version}, expected ${LOCKFILE_VERSION}`);
+    }
+
+    this.scenarios = contents.scenarios;
+  }
+
+  /**
+   * Get the locked interpretation of a step
+   * @param scenarioFile The path of the scenario file the step is in
+   * @param step The step as written
+   */
+  get(scenarioFile: string, step: ScenarioStep): LockedStep | undefined {
+    return this.scenarios[this.scenarioKey(scenarioFile)]?.[hashStep(step)];
+  }
+
+  /**
+   * Record the interpretation of a step, replacing the one it had
+   * @param scenarioFile The path of the scenario file the step is in
+   * @param step The step as written
+   */
+  record(scenarioFile: string, step: ScenarioStep, locked: LockedStep): void {
+    const key = this.scenarioKey(scenarioFile);
+    const hash = hashStep(step);
+
+    if (JSON.stringify(this.scenarios[key]?.[hash]) === JSON.stringify(locked)) {
+      return;
+    }
+
+    this.scenarios[key] = { ...this.scenarios[key], [hash]: locked };
+    this.changed = true;
+  }
+
+  /**
+   * Write the lockfile if anything was recorded, with sorted keys so it diffs well
+   */
+  save(): void {
+    if (!this.changed) {
+      return;
+    }
+
+    const scenarios = Object.fromEntries(
+      Object.keys(this.scenarios).sort().map(key => [
+        key,
+        Object.fromEntries(Object.keys(this.scenarios[key]).sort().map(hash => [hash, this.scenarios[key][hash]]))
+      ])
+    );
+    const contents: LockfileContents = { version: LOCKFILE_VERSION, scenarios };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, `${JSON.stringify(contents, null, 2)}\n`);
+    this.changed = false;
+  }
+
+  /**
+   * Scenario files are keyed relative to the lockfile, so it can be committed
+   */
+  private scenarioKey(scenarioFile: string): string {
+    return path.relative(path.dirname(this.filePath), path.resolve(scenarioFile)).split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,68 @@
+import { ExecutionConfig } from '../types/config';
+import { ScenarioContext } from '../types/scenario';
+
+/**
+ * How often a failing step is tried again, and how long to wait in between
+ */
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  // Wait before the first retry in milliseconds, doubled for every retry after it
+  delay: number;
+}
+
+const DEFAULT_RETRY_DELAY = 500;
+
+const RETRY_ANNOTATION_PATTERN = /\s*\[retries:\s*(\d+)\]/i;
+
+/**
+ * Resolve the retry policy of a scenario: `Retries` and `RetryDelay` in the
+ * scenario's context override `execution.retries` and `execution.retryDelay`
+ * @param execution The execution configuration
+ * @param context The scenario context
+ * @throws If a value is not a non-negative number
+ */
+export function resolveRetryPolicy(execution: ExecutionConfig = {}, context: ScenarioContext = {}): RetryPolicy {
+  return {
+    retries: readCount('Retries', context.Retries ?? context.retries ?? execution.retries ?? 0),
+    delay: readCount('RetryDelay', context.RetryDelay ?? context.retryDelay ?? execution.retryDelay ?? DEFAULT_RETRY_DELAY)
+  };
+}
+
+/**
+ * Split a `[retries: 3]` annotation off a step instruction, e.g.
+ * `I click the "Save" button [retries: 3]`
+ * @param instruction The step instruction
+ * @returns The instruction without the annotation, and the retries if there was one
+ */
+export function parseRetryAnnotation(instruction: string): { instruction: string; retries?: number } {
+  const annotationMatch = instruction.match(RETRY_ANNOTATION_PATTERN);
+
+  if (!annotationMatch) {
+    return { instruction };
+  }
+
+  return {
+    instruction: instruction.replace(RETRY_ANNOTATION_PATTERN, ''),
+    retries: parseInt(annotationMatch[1], 10)
+  };
+}
+
+/**
+ * Get the wait before a retry
+ * @param policy The retry policy
+ * @param retry The retry about to be made, counting from 1
+ */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+  return policy.delay * Math.pow(2, retry - 1);
+}
+
+function readCount(name: string, value: any): number {
+  const count = typeof value === 'number' ? value : Number(String(value).trim());
+
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${name} "${value}", expected a whole number of 0 or more`);
+  }
+
+  return count;
+}
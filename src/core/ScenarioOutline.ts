@@ -0,0 +1,84 @@
+import { Scenario, ScenarioStep } from '../types/scenario';
+import { parseDetailValue } from './StepDetails';
+
+/**
+ * Replace `<placeholder>` tokens with the values of an Examples row.
+ * Unknown placeholders are left untouched.
+ * @param text The text containing placeholders
+ * @param values The Examples row, keyed by column header
+ */
+export function substitutePlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(/<([^<>\n]+)>/g, (match, name) => (name in values ? values[name] : match));
+}
+
+/**
+ * Expand a scenario outline into one scenario per Examples row
+ * @param outline The outline, with placeholders in its title and steps
+ * @param rows The Examples rows, keyed by column header
+ * @param options Tags to add to every expansion and the index of the first row
+ * @returns One scenario per row, titled with the row's values
+ */
+export function expandOutline(
+  outline: Scenario,
+  rows: Array<Record<string, string>>,
+  options: { tags?: string[]; startIndex?: number } = {}
+): Scenario[] {
+  const startIndex = options.startIndex ?? 1;
+  const template = { steps: outline.steps, setup: outline.setup, teardown: outline.teardown };
+
+  return rows.map((values, rowIndex) => {
+    const label = Object.entries(values).map(([name, value]) => `${name}=${value}`).join(', ');
+    const tags = [...(outline.tags || []), ...(options.tags || [])];
+
+    return {
+      ...outline,
+      title: `${substitutePlaceholders(outline.title, values)} [${label}]`,
+      tags: tags.length > 0 ? Array.from(new Set(tags)) : outline.tags,
+      steps: outline.steps.map(step => substituteStep(step, values)),
+      setup: outline.setup?.map(step => substituteStep(step, values)),
+      teardown: outline.teardown?.map(step => substituteStep(step, values)),
+      example: {
+        outline: outline.title,
+        index: startIndex + rowIndex,
+        values,
+        template
+      }
+    };
+  });
+}
+
+/**
+ * Replace `<placeholder>` tokens in a step's instruction and details
+ * @param step The step containing placeholders
+ * @param values The replacement values, keyed by placeholder name
+ */
+export function substituteStep(step: ScenarioStep, values: Record<string, string>): ScenarioStep {
+  return {
+    ...step,
+    instruction: substitutePlaceholders(step.instruction, values),
+    details: step.details && substituteDeep(step.details, values)
+  };
+}
+
+function substituteDeep(value: any, values: Record<string, string>): any {
+  if (typeof value === 'string') {
+    // A detail that is only a placeholder, e.g. `- status: <status>`, takes
+    // the type of the value it's replaced with
+    if (/^<[^<>\n]+>$/.test(value) && value.slice(1, -1) in values) {
+      return parseDetailValue(values[value.slice(1, -1)]);
+    }
+    return substitutePlaceholders(value, values);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => substituteDeep(item, values));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteDeep(item, values)])
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,186 @@
+import { ScenarioParser } from './ScenarioParser';
+
+describe('ScenarioParser', () => {
+  const parser = new ScenarioParser();
+
+  it('parses every scenario of a file with its context', () => {
+    const feature = parser.parseFeature(`# Users
+
+## Context
+- Type: API
+- BaseURL: https://example.com
+
+## Scenario: Fetch a user
+
+### Steps
+1. **When** I send a GET request to "/users/1"
+2. **Then** the response status should be 200
+
+## Scenario: Missing user
+
+### Steps
+1. **When** I send a GET request to "/users/999"
+2. **Then** the response status should be 404
+`, 'users.md');
+
+    expect(feature.title).toBe('Users');
+    expect(feature.scenarios.map(scenario => scenario.title)).toEqual(['Fetch a user', 'Missing user']);
+    expect(feature.scenarios[0].context.BaseURL).toBe('https://example.com');
+    expect(feature.scenarios[0].testType).toBe('api');
+    expect(feature.scenarios[1].steps.map(step => [step.type, step.instruction])).toEqual([
+      ['when', 'I send a GET request to "/users/999"'],
+      ['then', 'the response status should be 404']
+    ]);
+  });
+
+  it('records where each step is written', () => {
+    const feature = parser.parseFeature(`# Locations
+
+## Scenario: One
+
+### Steps
+1. **Given** a user
+2. **When** I log in
+`, 'locations.md');
+
+    expect(feature.scenarios[0].steps[1].location).toMatchObject({ file: 'locations.md', line: 7, column: 1 });
+  });
+
+  it('expands an outline into one scenario per Examples row', () => {
+    const feature = parser.parseFeature(`# Paths
+
+## Scenario Outline: Fetch <path>
+
+### Steps
+1. **When** I send a GET request to "<path>"
+2. **Then** the response status should be <status>
+
+### Examples
+| path   | status |
+| /users | 200    |
+| /nope  | 404    |
+`, 'paths.md');
+
+    expect(feature.scenarios).toHaveLength(2);
+    expect(feature.scenarios[1].title).toContain('/nope');
+    expect(feature.scenarios[1].steps[1].instruction).toBe('the response status should be 404');
+    expect(feature.scenarios[1].example).toMatchObject({ index: 2, values: { path: '/nope', status: '404' } });
+  });
+
+  it('shares the Background with every scenario', () => {
+    const feature = parser.parseFeature(`# Background
+
+## Background
+1. **Given** I am logged in as "admin"
+
+## Scenario: One
+
+### Steps
+1. **When** I open the dashboard
+
+## Scenario: Two
+
+### Steps
+1. **When** I open the settings
+`, 'background.md');
+
+    for (const scenario of feature.scenarios) {
+      expect(scenario.background?.map(step => step.instruction)).toEqual(['I am logged in as "admin"']);
+    }
+  });
+
+  it('reads tags from the title and scenario headings', () => {
+    const feature = parser.parseFeature(`# Payments @billing
+
+## Scenario: Pay by card @smoke
+
+### Steps
+1. **When** I pay by card
+`, 'payments.md');
+
+    expect(feature.scenarios[0].tags).toEqual(['billing', 'smoke']);
+  });
+
+  it('parses a JSON body under a step into its details', () => {
+    const feature = parser.parseFeature(`# Create
+
+## Scenario: Create a user
+
+### Steps
+1. **When** I send a POST request to "/users" with body:
+   \`\`\`json
+   { "name": "Ada" }
+   \`\`\`
+`, 'create.md');
+
+    expect(feature.scenarios[0].steps[0].details?.body).toEqual({ name: 'Ada' });
+  });
+
+  it('reports an unknown step keyword with its file and line when linting', () => {
+    const diagnostics = parser.lint(`# Typo
+
+## Scenario: One
+
+### Steps
+1. **Whenn** I log in
+`, 'typo.md');
+
+    expect(diagnostics).toContainEqual({
+      file: 'typo.md',
+      line: 6,
+      column: 1,
+      message: 'Unknown step keyword "Whenn", expected **Given**, **When**, **Then** or **And**'
+    });
+  });
+
+  it('reports a context value the executor can not read on its line when linting', () => {
+    const diagnostics = parser.lint(`# Flaky
+
+## Context
+- Type: API
+- Retries: abc
+
+## Scenario: One
+
+### Steps
+1. **When** I send a GET request to "/users"
+`, 'flaky.md');
+
+    expect(diagnostics).toEqual([{
+      file: 'flaky.md',
+      line: 5,
+      column: 1,
+      message: 'Invalid Retries "abc", expected a whole number of 0 or more'
+    }]);
+  });
+
+  it('reports an unreadable StepTimeout in Gherkin feature files too', () => {
+    const diagnostics = parser.lint(`Feature: Import
+  - Type: API
+  - StepTimeout: soon
+
+  Scenario: Nightly
+    When I send a POST request to "/imports"
+`, 'import.feature');
+
+    expect(diagnostics).toContainEqual({
+      file: 'import.feature',
+      line: 3,
+      column: 1,
+      message: 'Invalid StepTimeout "soon", expected milliseconds or a duration such as 30s'
+    });
+  });
+
+  it('parses Gherkin feature files', () => {
+    const feature = parser.parseFeature(`Feature: Login
+
+  Scenario: Valid password
+    Given a registered user
+    When I log in with a valid password
+    Then I see the dashboard
+`, 'login.feature');
+
+    expect(feature.scenarios[0].title).toBe('Valid password');
+    expect(feature.scenarios[0].steps.map(step => step.type)).toEqual(['given', 'when', 'then']);
+  });
+});
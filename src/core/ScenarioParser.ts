@@ -1,127 +1,966 @@
 import * as fs from 'fs/promises';
-import { Scenario, ScenarioContext, ScenarioStep, TestType } from '../types/scenario';
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import MarkdownIt from 'markdown-it';
+import Token from 'markdown-it/lib/token';
+import {
+  Feature,
+  ParseDiagnostic,
+  Scenario,
+  ScenarioContext,
+  ScenarioStep,
+  SourceLocation,
+  StepDetails,
+  TestType
+} from '../types/scenario';
+import { formatLocation } from '../utils/location';
+import { GherkinParser } from './GherkinParser';
+import { expandOutline, substituteStep } from './ScenarioOutline';
+import { resolveRetryPolicy } from './RetryPolicy';
+import { addCodeBlock, parseDetailValue, parseJSONBody, tableToRecords } from './StepDetails';
+import { DEFAULT_STEP_KEYWORDS, StepKeywords, describeStepKeywords, getStepKeywords, matchStepKeyword } from './StepKeywords';
+import { resolveStepTimeout } from './StepTimeout';
+import { parseTagList } from './TagExpression';
+import { TestTypeRegistry } from './TestTypeRegistry';
+
+/**
+ * A heading with the block tokens that follow it, up to the next heading of
+ * the same or a higher level
+ */
+interface MarkdownSection {
+  title: string;
+  level: number;
+  // Zero-based line range of the section, heading included
+  startLine: number;
+  endLine: number;
+  // Tokens between the heading and its first subsection
+  tokens: Token[];
+  subsections: MarkdownSection[];
+}
+
+/**
+ * A markdown document split into lines and heading sections
+ */
+interface MarkdownDocument {
+  lines: string[];
+  root: MarkdownSection;
+  filePath: string;
+  // Files being included, outermost first, to detect include cycles
+  includeChain: string[];
+  // Values from a YAML front matter block at the top of the file
+  frontMatter: Record<string, any>;
+  // Step keywords of the file's `Language:`
+  keywords: StepKeywords;
+}
 
 export class ScenarioParser {
+  private gherkinParser: GherkinParser;
+  private markdown = new MarkdownIt();
+  private testTypes: TestTypeRegistry;
+  // Collects problems while linting, null when parsing normally
+  private diagnostics: ParseDiagnostic[] | null = null;
+
   /**
-   * Parse a scenario from a string
-   * @param content The scenario content as a string
-   * @returns The parsed scenario
+   * @param options The test types scenarios may declare; the built-in types
+   * when not given
    */
-  parse(content: string): Scenario {
-    const title = this.extractTitle(content);
-    const context = this.extractContext(content);
-    const steps = this.extractSteps(content);
-    const testType = this.extractTestType(content);
-    
+  constructor(options: { testTypes?: TestTypeRegistry } = {}) {
+    this.testTypes = options.testTypes || new TestTypeRegistry();
+    this.gherkinParser = new GherkinParser(this.testTypes);
+  }
+
+  /**
+   * Parse a scenario file from a string
+   * @param content The scenario file content as a string
+   * @param filePath The path the content was read from
+   * @returns The parsed feature with all of its scenarios
+   */
+  parseFeature(content: string, filePath: string = 'memory'): Feature {
+    // Cucumber feature files have their own front-end
+    if (filePath.endsWith('.feature') || GherkinParser.isGherkin(content)) {
+      return this.gherkinParser.parse(content, filePath);
+    }
+
+    const document = this.parseDocument(content, filePath);
+
+    const titleSection = this.collectSections(document.root, 1)[0];
+    const [title, titleTags] = this.splitTags(this.extractTitle(document));
+    const contextSection = this.findSection(document.root, 2, /^Context\b/);
+    // `## Context` bullets override front matter values of the same name
+    const context = { ...document.frontMatter, ...this.extractContext(contextSection) };
+    // Tags on the title or in a `- Tags:` context line apply to every scenario
+    const contextTags = context.Tags ?? context.tags ?? [];
+    const featureTags = this.unique([
+      ...titleTags,
+      ...parseTagList(Array.isArray(contextTags) ? contextTags.join(' ') : String(contextTags))
+    ]);
+    const testType = this.extractTestType(document, context);
+    document.keywords = this.extractKeywords(document, context);
+    const language = document.keywords === DEFAULT_STEP_KEYWORDS ? undefined : document.keywords.language;
+    const background = this.extractBackground(document);
+
+    const scenarios: Scenario[] = [];
+    const scenarioSections = this.collectSections(document.root, 2)
+      .filter(section => /^Scenario( Outline)?:/.test(section.title));
+
+    for (const section of scenarioSections) {
+      const [, outline, heading] = section.title.match(/^Scenario( Outline)?:\s*(.*)$/)!;
+      const [scenarioTitle, scenarioTags] = this.splitTags(heading);
+      const tags = this.unique([...featureTags, ...scenarioTags]);
+
+      const scenario: Scenario = {
+        title: scenarioTitle.trim() || title,
+        description: this.extractDescription(document, section),
+        context,
+        steps: this.extractSteps(document, section),
+        background,
+        setup: this.extractHookSteps(document, section.subsections, /^Setup\b/),
+        teardown: this.extractHookSteps(document, section.subsections, /^Teardown\b/),
+        testType,
+        language,
+        filePath,
+        feature: title,
+        tags: tags.length > 0 ? tags : undefined,
+        location: this.sectionLocation(document, section),
+        notes: this.extractNotes(document, section.subsections, /^(Steps|Setup|Teardown|Examples)\b/)
+      };
+
+      if (outline) {
+        // Each Examples row becomes a scenario of its own
+        const examples = this.extractExamples(document, section);
+        if (examples.length === 0) {
+          this.report(document, section.startLine + 1, `Scenario Outline "${scenario.title}" has no Examples rows`);
+        }
+        scenarios.push(...expandOutline(scenario, examples));
+      } else {
+        scenarios.push(scenario);
+      }
+    }
+
+    // Files without any scenario heading are a single unnamed scenario
+    if (scenarioSections.length === 0) {
+      const subsections = this.collectSections(document.root, 3)
+        .filter(section => !this.isWithinBackground(document, section));
+      const stepsSection = subsections.find(section => /^Steps\b/.test(section.title));
+
+      scenarios.push({
+        title,
+        context,
+        steps: stepsSection ? this.extractStepList(document, stepsSection.tokens) : [],
+        background,
+        setup: this.extractHookSteps(document, subsections, /^Setup\b/),
+        teardown: this.extractHookSteps(document, subsections, /^Teardown\b/),
+        testType,
+        language,
+        filePath,
+        feature: title,
+        tags: featureTags.length > 0 ? featureTags : undefined,
+        notes: this.extractNotes(
+          document,
+          (titleSection ?? document.root).subsections.filter(section => section.level === 3),
+          /^(Steps|Setup|Teardown)\b/
+        )
+      });
+    }
+
     return {
       title,
+      description: titleSection && this.extractDescription(document, titleSection),
       context,
-      steps,
+      background,
+      scenarios,
       testType,
-      filePath: 'memory' // Since this is parsed from a string, not a file
+      filePath,
+      tags: featureTags.length > 0 ? featureTags : undefined,
+      notes: this.extractNotes(
+        document,
+        this.collectSections(document.root, 2),
+        /^(Context\b|Background\b|Scenario( Outline)?:)/
+      )
     };
   }
 
+  /**
+   * Parse a scenario file
+   * @param scenarioPath The path to the scenario file
+   * @returns The parsed feature with all of its scenarios
+   */
+  async parseFeatureFile(scenarioPath: string): Promise<Feature> {
+    const content = await fs.readFile(scenarioPath, 'utf-8');
+    return this.parseFeature(content, scenarioPath);
+  }
+
+  /**
+   * Parse a scenario from a string
+   * @deprecated Only returns the first scenario, use parseFeature instead
+   * @param content The scenario content as a string
+   * @returns The parsed scenario
+   */
+  parse(content: string): Scenario {
+    // Since this is parsed from a string, not a file
+    return this.firstScenario(this.parseFeature(content, 'memory'));
+  }
+
   /**
    * Parse a scenario from a file
+   * @deprecated Only returns the first scenario, use parseFeatureFile instead
    * @param scenarioPath The path to the scenario file
    * @returns The parsed scenario
    */
   async parseScenario(scenarioPath: string): Promise<Scenario> {
-    // Read the scenario file
+    return this.firstScenario(await this.parseFeatureFile(scenarioPath));
+  }
+
+  /**
+   * Parse a scenario file strictly, reporting problems the normal parser
+   * tolerates: missing title, context or steps, misnumbered steps, unknown
+   * step keywords, unparseable JSON, unknown `Type:` values and context values
+   * the executor can't read
+   * @param content The scenario file content as a string
+   * @param filePath The path the content was read from
+   * @returns The problems found, in file and line order
+   */
+  lint(content: string, filePath: string = 'memory'): ParseDiagnostic[] {
+    this.diagnostics = [];
+
+    try {
+      const feature = this.parseFeature(content, filePath);
+      this.lintFeature(feature, filePath);
+      this.lintContext(feature.context, filePath, content);
+    } catch (error) {
+      // Errors that stop parsing are reported as `file:line: message`
+      const message = error instanceof Error ? error.message : String(error);
+      const errorMatch = message.match(/^(.+?):(\d+)(?::(\d+))?: ([\s\S]*)$/);
+      this.diagnostics.push(errorMatch
+        ? { file: errorMatch[1], line: parseInt(errorMatch[2], 10), column: parseInt(errorMatch[3] || '1', 10), message: errorMatch[4] }
+        : { file: filePath, line: 1, column: 1, message });
+    }
+
+    const diagnostics = this.diagnostics;
+    this.diagnostics = null;
+
+    // A file included twice reports its problems once
+    const unique = new Map(diagnostics.map(diagnostic => [
+      `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`,
+      diagnostic
+    ]));
+
+    return Array.from(unique.values()).sort((a, b) =>
+      a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+  }
+
+  /**
+   * Lint a scenario file
+   * @param scenarioPath The path to the scenario file
+   * @returns The problems found
+   */
+  async lintFile(scenarioPath: string): Promise<ParseDiagnostic[]> {
     const content = await fs.readFile(scenarioPath, 'utf-8');
-    
-    // This is a placeholder implementation
-    // A real implementation would parse the markdown properly
-    
-    const title = this.extractTitle(content);
-    const context = this.extractContext(content);
-    const steps = this.extractSteps(content);
-    const testType = this.extractTestType(content);
-    
+    return this.lint(content, scenarioPath);
+  }
+
+  /**
+   * Checks that apply to markdown and Gherkin files alike
+   */
+  private lintFeature(feature: Feature, filePath: string): void {
+    if (Object.keys(feature.context).length === 0) {
+      this.diagnostics!.push({ file: filePath, line: 1, column: 1, message: 'Missing context, e.g. "- Type: API"' });
+    }
+
+    if (feature.scenarios.length === 0) {
+      this.diagnostics!.push({ file: filePath, line: 1, column: 1, message: 'No scenarios found' });
+    }
+
+    for (const scenario of feature.scenarios) {
+      if (scenario.steps.length === 0) {
+        this.diagnostics!.push({
+          file: filePath,
+          line: scenario.location?.line || 1,
+          column: scenario.location?.column || 1,
+          message: `Scenario "${scenario.title}" has no steps`
+        });
+      }
+    }
+  }
+
+  /**
+   * Report context values the executor can't read, e.g. `- Retries: abc`, on
+   * the line that sets them
+   */
+  private lintContext(context: ScenarioContext, filePath: string, content: string): void {
+    const lines = content.split('\n');
+
+    for (const resolve of [resolveRetryPolicy, resolveStepTimeout]) {
+      try {
+        resolve({}, context);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // The message names the value, e.g. `Invalid Retries "abc"`
+        const key = message.match(/^Invalid (\w+)/)?.[1];
+        const line = key ? lines.findIndex(text => new RegExp(`^\\W*${key}\\s*:`, 'i').test(text)) + 1 : 0;
+        this.diagnostics!.push({ file: filePath, line: line || 1, column: 1, message });
+      }
+    }
+  }
+
+  /**
+   * Record an error when linting, so the remaining problems are found too;
+   * throw it when parsing normally
+   */
+  private fail(document: MarkdownDocument, line: number, message: string): void {
+    if (this.diagnostics) {
+      this.report(document, line, message);
+    } else {
+      throw new Error(`${document.filePath}:${line}: ${message}`);
+    }
+  }
+
+  /**
+   * Record a problem when linting; the normal parser ignores them
+   */
+  private report(document: MarkdownDocument, line: number, message: string, column: number = 1): void {
+    this.diagnostics?.push({ file: document.filePath, line, column, message });
+  }
+
+  private reportJSON(document: MarkdownDocument, token: Token, text: string): void {
+    let reason = '';
+    try {
+      JSON.parse(text);
+    } catch (error) {
+      reason = `: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    this.report(document, token.map ? token.map[0] + 1 : 1, `Unparseable JSON body${reason}`);
+  }
+
+  private sectionLocation(document: MarkdownDocument, section: MarkdownSection): SourceLocation {
     return {
-      title,
-      context,
-      steps,
-      testType,
-      filePath: scenarioPath
+      file: document.filePath,
+      line: section.startLine + 1,
+      column: 1,
+      endLine: section.startLine + 1,
+      endColumn: document.lines[section.startLine].length + 1
+    };
+  }
+
+  private firstScenario(feature: Feature): Scenario {
+    return feature.scenarios[0] || {
+      title: feature.title,
+      context: feature.context,
+      steps: [],
+      testType: feature.testType,
+      filePath: feature.filePath,
+      feature: feature.title
+    };
+  }
+
+  /**
+   * Tokenize the markdown and group the block tokens by heading
+   */
+  private parseDocument(content: string, filePath: string): MarkdownDocument {
+    const lines = content.split(/\r?\n/);
+    const frontMatter = this.extractFrontMatter(lines, filePath);
+    const tokens = this.markdown.parse(lines.join('\n'), {});
+
+    const root: MarkdownSection = {
+      title: '',
+      level: 0,
+      startLine: 0,
+      endLine: lines.length,
+      tokens: [],
+      subsections: []
     };
+    const stack: MarkdownSection[] = [root];
+
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index];
+
+      if (token.type !== 'heading_open') {
+        stack[stack.length - 1].tokens.push(token);
+        continue;
+      }
+
+      const level = parseInt(token.tag.substring(1), 10);
+      const startLine = token.map ? token.map[0] : 0;
+
+      // Close every open section of the same or a deeper level
+      while (stack.length > 1 && stack[stack.length - 1].level >= level) {
+        stack.pop()!.endLine = startLine;
+      }
+
+      const section: MarkdownSection = {
+        title: tokens[index + 1].content.trim(),
+        level,
+        startLine,
+        endLine: lines.length,
+        tokens: [],
+        subsections: []
+      };
+
+      stack[stack.length - 1].subsections.push(section);
+      stack.push(section);
+
+      // Skip the heading's inline and closing tokens
+      index += 2;
+    }
+
+    const includeChain = filePath === 'memory' ? [] : [path.resolve(filePath)];
+    return { lines, root, filePath, includeChain, frontMatter, keywords: DEFAULT_STEP_KEYWORDS };
   }
-  
-  private extractTestType(content: string): TestType {
-    const contextMatch = content.match(/## Context\s+([\s\S]*?)(?=##|$)/);
-    if (!contextMatch) return 'generic';
-    
-    const contextContent = contextMatch[1].toLowerCase();
-    
-    if (contextContent.includes('type: ui') || 
-        contextContent.includes('browser') || 
-        contextContent.includes('- ui')) {
-      return 'ui';
-    } else if (contextContent.includes('type: api') || 
-               contextContent.includes('api') || 
-               contextContent.includes('endpoint')) {
-      return 'api';
-    } else if (contextContent.includes('type: database') || 
-               contextContent.includes('database') || 
-               contextContent.includes('sql')) {
-      return 'database';
-    }
-    
-    return 'generic';
-  }
-  
-  private extractTitle(content: string): string {
-    // Extract the title from the markdown
-    const titleMatch = content.match(/^# (.+)$/m);
-    return titleMatch ? titleMatch[1].trim() : 'Untitled Scenario';
-  }
-  
-  private extractContext(content: string): ScenarioContext {
-    // Extract the context section from the markdown
-    const contextMatch = content.match(/## Context\s+([\s\S]*?)(?=##|$)/);
-    
-    if (!contextMatch) {
+
+  /**
+   * Collect every section of a heading level, in document order
+   */
+  private collectSections(section: MarkdownSection, level: number, title?: RegExp): MarkdownSection[] {
+    const sections: MarkdownSection[] = [];
+
+    for (const subsection of section.subsections) {
+      if (subsection.level === level && (!title || title.test(subsection.title))) {
+        sections.push(subsection);
+      }
+      sections.push(...this.collectSections(subsection, level, title));
+    }
+
+    return sections;
+  }
+
+  private findSection(section: MarkdownSection, level: number, title: RegExp): MarkdownSection | undefined {
+    return this.collectSections(section, level, title)[0];
+  }
+
+  private isWithinBackground(document: MarkdownDocument, section: MarkdownSection): boolean {
+    return this.collectSections(document.root, 2, /^Background\b/)
+      .some(background => background.subsections.includes(section));
+  }
+
+  private extractDescription(document: MarkdownDocument, section: MarkdownSection): string | undefined {
+    // Free text between the scenario heading and its first subsection
+    const end = section.subsections.length > 0 ? section.subsections[0].startLine : section.endLine;
+    const description = document.lines.slice(section.startLine + 1, end).join('\n').trim();
+
+    return description || undefined;
+  }
+
+  /**
+   * Keep the sections the runner doesn't read as written, so formatting the
+   * file doesn't drop them
+   * @param known Matches the titles of the sections the runner reads
+   */
+  private extractNotes(document: MarkdownDocument, sections: MarkdownSection[], known: RegExp): string[] | undefined {
+    const notes = sections
+      .filter(section => !known.test(section.title))
+      .map(section => document.lines.slice(section.startLine, section.endLine).join('\n').trim());
+
+    return notes.length > 0 ? notes : undefined;
+  }
+
+  /**
+   * Resolve the test type named by the `Type:` context value. Files without
+   * one are generic tests.
+   */
+  private extractTestType(document: MarkdownDocument, context: ScenarioContext): TestType {
+    const type = context.Type ?? context.type;
+
+    if (type === undefined || String(type).trim() === '') {
+      return 'generic';
+    }
+
+    try {
+      return this.testTypes.resolveName(String(type));
+    } catch (error) {
+      const typeLine = document.lines.findIndex(line => /^\s*-\s*Type:/i.test(line));
+      this.fail(document, typeLine + 1 || 1, error instanceof Error ? error.message : String(error));
+      return 'generic';
+    }
+  }
+
+  /**
+   * Get the step keywords of the language named by the `Language:` context
+   * value, e.g. `de` for `**Angenommen**`, `**Wenn**`, `**Dann**`
+   * @param fallback The keywords used when no language is given
+   */
+  private extractKeywords(
+    document: MarkdownDocument,
+    context: ScenarioContext,
+    fallback: StepKeywords = DEFAULT_STEP_KEYWORDS
+  ): StepKeywords {
+    const language = context.Language ?? context.language;
+
+    if (language === undefined || String(language).trim() === '') {
+      return fallback;
+    }
+
+    try {
+      return getStepKeywords(String(language));
+    } catch (error) {
+      const languageLine = document.lines.findIndex(line => /^\s*(-\s*)?Language:/i.test(line));
+      this.fail(document, languageLine + 1 || 1, error instanceof Error ? error.message : String(error));
+      return fallback;
+    }
+  }
+
+  private extractTitle(document: MarkdownDocument): string {
+    // The first top-level heading is the title
+    const titleSection = this.collectSections(document.root, 1)[0];
+    if (!titleSection) {
+      this.report(document, 1, 'Missing "# " title heading');
+    }
+    return titleSection ? titleSection.title : 'Untitled Scenario';
+  }
+
+  /**
+   * Read a YAML front matter block delimited by `---` lines at the top of the
+   * file. The block is blanked out of the lines so that markdown line
+   * numbers stay the same.
+   * @param lines The lines of the file, modified in place
+   * @returns The front matter values, typed as YAML
+   */
+  private extractFrontMatter(lines: string[], filePath: string): Record<string, any> {
+    if (lines[0]?.trim() !== '---') {
       return {};
     }
-    
-    const contextLines = contextMatch[1].trim().split('\n');
+
+    const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (end === -1) {
+      throw new Error(`${filePath}:1: Unterminated front matter, expected a closing ---`);
+    }
+
+    let frontMatter: unknown;
+    try {
+      frontMatter = yaml.load(lines.slice(1, end).join('\n'));
+    } catch (error) {
+      const mark = error instanceof yaml.YAMLException ? error.mark : undefined;
+      const line = mark ? mark.line + 2 : 1;
+      const reason = error instanceof yaml.YAMLException ? error.reason : String(error);
+      throw new Error(`${filePath}:${line}: Invalid front matter: ${reason}`);
+    }
+
+    if (frontMatter !== undefined && frontMatter !== null &&
+        (typeof frontMatter !== 'object' || Array.isArray(frontMatter))) {
+      throw new Error(`${filePath}:2: Front matter must be a set of key: value pairs`);
+    }
+
+    for (let index = 0; index <= end; index++) {
+      lines[index] = '';
+    }
+
+    return (frontMatter as Record<string, any>) || {};
+  }
+
+  private extractContext(contextSection?: MarkdownSection): ScenarioContext {
     const context: ScenarioContext = {};
-    
-    for (const line of contextLines) {
-      const itemMatch = line.match(/^- (.+?): (.+)$/);
+
+    if (!contextSection) {
+      return context;
+    }
+
+    // Only the top-level `- key: value` items of the section's bullet list
+    const tokens = contextSection.tokens;
+    tokens.forEach((token, index) => {
+      if (token.type !== 'list_item_open' || token.level !== 1 || token.markup !== '-') return;
+
+      const inline = tokens.slice(index).find(candidate => candidate.type === 'inline');
+      const itemMatch = inline?.content.split('\n')[0].match(/^(.+?): (.+)$/);
+
       if (itemMatch) {
         const [, key, value] = itemMatch;
         context[key.trim()] = value.trim();
       }
-    }
-    
+    });
+
     return context;
   }
-  
-  private extractSteps(content: string): ScenarioStep[] {
-    // Extract the steps section from the markdown
-    const stepsMatch = content.match(/### Steps\s+([\s\S]*?)(?=###|$)/);
-    
-    if (!stepsMatch) {
+
+  /**
+   * Extract the rows of the `### Examples` table of a scenario outline
+   */
+  private extractExamples(document: MarkdownDocument, section: MarkdownSection): Array<Record<string, string>> {
+    const examplesSection = section.subsections.find(subsection => /^Examples\b/.test(subsection.title));
+
+    if (!examplesSection) {
       return [];
     }
-    
-    const stepsContent = stepsMatch[1].trim();
-    const stepMatches = Array.from(stepsContent.matchAll(/(\d+)\. \*\*(Given|When|Then|And)\*\* (.+?)(?=\n\d+\. \*\*|\n?$)/gs));
-    
-    const steps: ScenarioStep[] = [];
-    
-    for (const match of stepMatches) {
-      const [, , type, instruction] = match;
-      
-      steps.push({
-        type: type.toLowerCase() as any,
-        instruction: instruction.trim(),
-        lineNumber: parseInt(match[1])
+
+    const rows = document.lines
+      .slice(examplesSection.startLine + 1, examplesSection.endLine)
+      .map(line => line.trim())
+      .filter(line => line.startsWith('|'))
+      // Skip the header separator row, e.g. | --- | :---: |
+      .filter(line => !/^\|[\s:|-]+\|$/.test(line))
+      .map(line => line
+        .replace(/^\|/, '')
+        .replace(/\|$/, '')
+        .split('|')
+        .map(cell => cell.trim()));
+
+    const [header, ...body] = rows;
+    if (!header) {
+      return [];
+    }
+
+    return body.map(row => {
+      const values: Record<string, string> = {};
+      header.forEach((name, column) => {
+        values[name] = row[column] ?? '';
       });
+      return values;
+    });
+  }
+
+  /**
+   * Extract the steps of the `## Background` section, which are shared by
+   * every scenario in the file. The steps may be listed directly under the
+   * heading or in a `### Steps` subsection.
+   */
+  private extractBackground(document: MarkdownDocument): ScenarioStep[] | undefined {
+    const backgroundSection = this.findSection(document.root, 2, /^Background\b/);
+
+    if (!backgroundSection) {
+      return undefined;
     }
-    
+
+    const steps = backgroundSection.subsections.some(subsection => /^Steps\b/.test(subsection.title))
+      ? this.extractSteps(document, backgroundSection)
+      : this.extractStepList(document, backgroundSection.tokens);
+
+    return steps.length > 0 ? steps : undefined;
+  }
+
+  private extractSteps(document: MarkdownDocument, section: MarkdownSection): ScenarioStep[] {
+    // Extract the steps subsection of the section
+    const stepsSection = section.subsections.find(subsection => /^Steps\b/.test(subsection.title));
+
+    if (!stepsSection) {
+      return [];
+    }
+
+    return this.extractStepList(document, stepsSection.tokens);
+  }
+
+  /**
+   * Extract the steps of a scenario's `### Setup` or `### Teardown` section
+   * @param sections The scenario's subsections
+   * @param heading Matches the title of the section to read
+   */
+  private extractHookSteps(
+    document: MarkdownDocument,
+    sections: MarkdownSection[],
+    heading: RegExp
+  ): ScenarioStep[] | undefined {
+    const section = sections.find(subsection => heading.test(subsection.title));
+    const steps = section ? this.extractStepList(document, section.tokens) : [];
+
+    return steps.length > 0 ? steps : undefined;
+  }
+
+  /**
+   * Extract the steps from the top-level ordered lists of a section
+   */
+  private extractStepList(document: MarkdownDocument, tokens: Token[]): ScenarioStep[] {
+    const steps: ScenarioStep[] = [];
+    const seenNumbers = new Set<number>();
+    let listLevel: number | null = null;
+    let previousNumber = 0;
+
+    tokens.forEach((token, index) => {
+      if (token.type === 'ordered_list_open' && listLevel === null) {
+        listLevel = token.level;
+      } else if (token.type === 'ordered_list_close' && token.level === listLevel) {
+        listLevel = null;
+      } else if (token.type === 'list_item_open' && listLevel !== null && token.level === listLevel + 1) {
+        // Step numbers are ignored when running, but lint holds them to 1, 2, 3...
+        const stepNumber = parseInt(token.info, 10);
+        const line = token.map ? token.map[0] + 1 : 1;
+        if (seenNumbers.has(stepNumber)) {
+          this.report(document, line, `Duplicate step number ${stepNumber}`);
+        } else if (stepNumber !== previousNumber + 1) {
+          this.report(document, line, `Step number ${stepNumber} is out of order, expected ${previousNumber + 1}`);
+        }
+        seenNumbers.add(stepNumber);
+        previousNumber = stepNumber;
+
+        const step = this.parseStepItem(document, token, this.itemTokens(tokens, index));
+        if (step) {
+          steps.push(...this.expandInclude(document, step));
+        }
+      }
+    });
+
     return steps;
   }
+
+  /**
+   * Replace an `include: ./shared/login.md` step with the steps of the
+   * included file. `- name: value` sub-bullets of the include step replace
+   * `<name>` placeholders in the included steps.
+   * @returns The included steps, or the step itself if it isn't an include
+   */
+  private expandInclude(document: MarkdownDocument, step: ScenarioStep): ScenarioStep[] {
+    const includeMatch = step.instruction.split('\n')[0].match(/^include:\s*(\S+)\s*$/i);
+
+    if (!includeMatch) {
+      return [step];
+    }
+
+    const includePath = includeMatch[1];
+    const where = step.location ? formatLocation(step.location) : document.filePath;
+    // Included steps are reported against the path as seen from the scenario file
+    const includedFile = document.filePath === 'memory'
+      ? path.resolve(includePath)
+      : path.join(path.dirname(document.filePath), includePath);
+    const resolvedPath = path.resolve(includedFile);
+
+    if (document.includeChain.includes(resolvedPath)) {
+      const cycle = [...document.includeChain, resolvedPath].map(file => path.relative(process.cwd(), file));
+      throw new Error(`${where}: Include cycle: ${cycle.join(' -> ')}`);
+    }
+
+    if (!existsSync(resolvedPath)) {
+      throw new Error(`${where}: Included file not found: ${includePath}`);
+    }
+
+    const parameters: Record<string, string> = {};
+    Object.entries(step.details?.expectations || {}).forEach(([name, value]) => {
+      parameters[name] = typeof value === 'string' ? value : JSON.stringify(value);
+    });
+
+    const included = this.parseDocument(readFileSync(resolvedPath, 'utf-8'), includedFile);
+    included.includeChain = [...document.includeChain, resolvedPath];
+    // Shared steps are written in the including file's language unless they say otherwise
+    included.keywords = this.extractKeywords(included, included.frontMatter, document.keywords);
+
+    // The included file may list its steps under `### Steps` or on their own
+    const stepsSection = this.collectSections(included.root, 3, /^Steps\b/)[0];
+    const steps = stepsSection
+      ? this.extractStepList(included, stepsSection.tokens)
+      : this.extractStepList(included, this.allTokens(included.root));
+
+    // Steps keep their own location, and point back at the outermost include
+    return steps.map(includedStep => ({
+      ...substituteStep(includedStep, parameters),
+      includedFrom: {
+        path: includePath,
+        parameters,
+        type: step.type,
+        keyword: step.keyword,
+        location: step.location
+      }
+    }));
+  }
+
+  /**
+   * Get the block tokens of a section and all of its subsections, in order
+   */
+  private allTokens(section: MarkdownSection): Token[] {
+    return [
+      ...section.tokens,
+      ...section.subsections.flatMap(subsection => this.allTokens(subsection))
+    ];
+  }
+
+  /**
+   * Get the tokens inside a list item, up to its closing token
+   */
+  private itemTokens(tokens: Token[], openIndex: number): Token[] {
+    const level = tokens[openIndex].level;
+    let closeIndex = openIndex + 1;
+
+    while (closeIndex < tokens.length &&
+           !(tokens[closeIndex].type === 'list_item_close' && tokens[closeIndex].level === level)) {
+      closeIndex++;
+    }
+
+    return tokens.slice(openIndex + 1, closeIndex);
+  }
+
+  /**
+   * Build a step from the source lines of a `1. **Given** ...` list item
+   */
+  private parseStepItem(document: MarkdownDocument, item: Token, children: Token[]): ScenarioStep | null {
+    if (!item.map) {
+      return null;
+    }
+
+    const [startLine, endLine] = item.map;
+    const itemLines = document.lines.slice(startLine, endLine);
+
+    // The item's range includes any blank lines before the next item
+    while (itemLines.length > 1 && !itemLines[itemLines.length - 1].trim()) {
+      itemLines.pop();
+    }
+
+    const [firstLine, ...continuationLines] = itemLines;
+    const markerMatch = firstLine.match(/^(\s*)\d+[.)]\s+/);
+    if (!markerMatch) {
+      return null;
+    }
+
+    const keywordMatch = firstLine.substring(markerMatch[0].length).match(/^\*\*(.+?)\*\* /);
+    const type = keywordMatch ? matchStepKeyword(document.keywords, keywordMatch[1]) : undefined;
+    if (!keywordMatch || !type) {
+      const unknownMatch = firstLine.substring(markerMatch[0].length).match(/^\*\*(.+?)\*\*/);
+      this.report(document, startLine + 1, unknownMatch
+        ? `Unknown step keyword "${unknownMatch[1]}", expected ${describeStepKeywords(document.keywords)}`
+        : `Step does not start with ${describeStepKeywords(document.keywords)}`);
+      return null;
+    }
+
+    // Continuation lines are indented to the item's content
+    const indentation = markerMatch[0].length;
+    const instruction = [
+      firstLine.substring(indentation + keywordMatch[0].length),
+      ...continuationLines.map(line => this.removeIndentation(line, indentation))
+    ].join('\n').trim();
+
+    if (!instruction) {
+      this.report(document, startLine + 1, 'Step has no instruction');
+      return null;
+    }
+
+    const lastLine = itemLines[itemLines.length - 1];
+    const location: SourceLocation = {
+      file: document.filePath,
+      line: startLine + 1,
+      column: markerMatch[1].length + 1,
+      endLine: startLine + itemLines.length,
+      endColumn: lastLine.length + 1
+    };
+
+    const details = this.extractDetails(document, item, children);
+
+    return {
+      type,
+      keyword: keywordMatch[1],
+      instruction,
+      details,
+      lineNumber: location.line,
+      location
+    };
+  }
+
+  /**
+   * Read the JSON, code blocks, `- key: value` sub-bullets and tables
+   * written under a step into typed details
+   */
+  private extractDetails(document: MarkdownDocument, item: Token, children: Token[]): StepDetails | undefined {
+    const details: StepDetails = {};
+    const blockLevel = item.level + 1;
+    let firstParagraph = true;
+
+    children.forEach((token, index) => {
+      if (token.level !== blockLevel) return;
+
+      switch (token.type) {
+        case 'paragraph_open': {
+          // JSON may continue the step's own paragraph or follow it
+          const content = children[index + 1].content;
+          const text = firstParagraph ? content.split('\n').slice(1).join('\n') : content;
+          const body = parseJSONBody(text);
+          if (body !== undefined) {
+            details.body = body;
+          } else if (/^\s*[[{]/.test(text)) {
+            this.reportJSON(document, token, text);
+          }
+          firstParagraph = false;
+          break;
+        }
+
+        case 'fence': {
+          const language = token.info.trim().split(/\s+/)[0] || undefined;
+          if (language && /json/i.test(language) && parseJSONBody(token.content) === undefined) {
+            this.reportJSON(document, token, token.content);
+          }
+          addCodeBlock(details, token.content, language);
+          break;
+        }
+
+        case 'code_block':
+          addCodeBlock(details, token.content);
+          break;
+
+        case 'bullet_list_open':
+          details.expectations = {
+            ...details.expectations,
+            ...this.extractKeyValueItems(children.slice(index), token.level)
+          };
+          break;
+
+        case 'table_open':
+          details.table = tableToRecords(this.extractTableRows(children.slice(index)));
+          break;
+      }
+    });
+
+    return Object.keys(details).length > 0 ? details : undefined;
+  }
+
+  /**
+   * Read the `key: value` items of a bullet list, starting at its opening token
+   */
+  private extractKeyValueItems(tokens: Token[], listLevel: number): Record<string, any> {
+    const values: Record<string, any> = {};
+
+    for (let index = 1; index < tokens.length; index++) {
+      const token = tokens[index];
+
+      if (token.type === 'bullet_list_close' && token.level === listLevel) {
+        break;
+      }
+
+      if (token.type === 'list_item_open' && token.level === listLevel + 1) {
+        const inline = tokens.slice(index).find(candidate => candidate.type === 'inline');
+        const itemMatch = inline?.content.split('\n')[0].match(/^(.+?):\s+(.+)$/);
+
+        if (itemMatch) {
+          values[itemMatch[1].trim()] = parseDetailValue(itemMatch[2]);
+        }
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Read the cell text of a table, starting at its opening token
+   */
+  private extractTableRows(tokens: Token[]): string[][] {
+    const rows: string[][] = [];
+
+    for (const token of tokens) {
+      if (token.type === 'table_close') {
+        break;
+      }
+
+      if (token.type === 'tr_open') {
+        rows.push([]);
+      } else if (token.type === 'inline' && rows.length > 0) {
+        rows[rows.length - 1].push(token.content.trim());
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Split trailing `@tag` words off a heading
+   * @returns The heading text and its tags
+   */
+  private splitTags(heading: string): [string, string[]] {
+    const tagsMatch = heading.match(/^(.*?)((?:(?:^|\s+)@[^\s@]+)+)\s*$/);
+
+    if (!tagsMatch) {
+      return [heading, []];
+    }
+
+    return [tagsMatch[1].trim(), parseTagList(tagsMatch[2])];
+  }
+
+  private unique(tags: string[]): string[] {
+    return Array.from(new Set(tags));
+  }
+
+  private removeIndentation(line: string, indentation: number): string {
+    const leading = line.length - line.trimStart().length;
+    return line.substring(Math.min(leading, indentation));
+  }
 }
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScenarioParser } from './ScenarioParser';
+import { formatScenarioFile, serializeFeature } from './ScenarioSerializer';
+
+function findMarkdownFiles(directory: string): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return findMarkdownFiles(entryPath);
+    }
+    return entry.name.endsWith('.md') ? [entryPath] : [];
+  });
+}
+
+describe('ScenarioSerializer', () => {
+  const parser = new ScenarioParser();
+  const repositoryFiles = [
+    ...findMarkdownFiles(path.join(__dirname, '../../tests')),
+    ...findMarkdownFiles(path.join(__dirname, '../../examples'))
+  ];
+
+  it.each(repositoryFiles.map(file => [path.relative(path.join(__dirname, '../..'), file), file]))(
+    'formats %s without losing anything, or leaves it as it is',
+    (_name, file) => {
+      const content = fs.readFileSync(file, 'utf-8');
+
+      let formatted: string;
+      try {
+        formatted = formatScenarioFile(content, file, parser);
+      } catch (error) {
+        expect((error as Error).message).toMatch(/^Formatting would drop line \d+/);
+        return;
+      }
+
+      expect(formatScenarioFile(formatted, file, parser)).toBe(formatted);
+      expect(parser.parseFeature(formatted, file).scenarios.map(scenario => scenario.steps.length))
+        .toEqual(parser.parseFeature(content, file).scenarios.map(scenario => scenario.steps.length));
+    }
+  );
+
+  it('keeps intro text and the sections the runner does not read', () => {
+    const formatted = formatScenarioFile(`# Checkout
+
+Covers paying for the basket.
+
+## Scenario: Pay by card
+
+Happy path.
+
+### Steps
+1. **When** I pay by card
+3. **Then** I see the receipt
+
+### Expected Results
+
+- The order is paid
+
+## Notes
+
+Uses the sandbox card.
+`, 'checkout.md', parser);
+
+    expect(formatted).toBe(`# Checkout
+
+Covers paying for the basket.
+
+## Scenario: Pay by card
+
+Happy path.
+
+### Steps
+
+1. **When** I pay by card
+2. **Then** I see the receipt
+
+### Expected Results
+
+- The order is paid
+
+## Notes
+
+Uses the sandbox card.
+`);
+  });
+
+  it('refuses to drop numbered items without a step keyword', () => {
+    const content = `# Runner
+
+## Scenario: Create
+
+### Steps
+1. **Given** a runner
+2. Check its configuration
+`;
+
+    expect(() => formatScenarioFile(content, 'runner.md', parser))
+      .toThrow('Formatting would drop line 7 ("2. Check its configuration"), leaving the file as it is');
+  });
+
+  it('refuses to drop an outline without Examples rows', () => {
+    const content = `# Paths
+
+## Scenario Outline: Fetch <path>
+
+### Steps
+1. **When** I send a GET request to "<path>"
+
+### Examples
+| path |
+`;
+
+    expect(() => formatScenarioFile(content, 'paths.md', parser)).toThrow(/^Formatting would drop line 3/);
+  });
+
+  it('writes an expanded outline back as the outline', () => {
+    const feature = parser.parseFeature(`# Paths
+
+## Scenario Outline: Fetch <path>
+
+### Steps
+1. **When** I send a GET request to "<path>"
+
+### Examples
+| path | status |
+|---|---|
+| /users | 200 |
+| /nope | 404 |
+`, 'paths.md');
+
+    expect(serializeFeature(feature)).toBe(`# Paths
+
+## Scenario Outline: Fetch <path>
+
+### Steps
+
+1. **When** I send a GET request to "<path>"
+
+### Examples
+
+| path   | status |
+|--------|--------|
+| /users | 200    |
+| /nope  | 404    |
+`);
+  });
+});
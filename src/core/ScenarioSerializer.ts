@@ -0,0 +1,442 @@
+import * as yaml from 'js-yaml';
+import { Feature, Scenario, ScenarioContext, ScenarioStep, StepDetails, StepInclude } from '../types/scenario';
+import { ScenarioParser } from './ScenarioParser';
+import { parseDetailValue } from './StepDetails';
+import { DEFAULT_STEP_KEYWORDS, StepKeywords, getStepKeywords, matchStepKeyword } from './StepKeywords';
+import { parseTagList } from './TagExpression';
+
+/**
+ * Write a feature as canonical markdown: steps numbered from 1, context as
+ * `- key: value` bullets (or front matter for typed values), JSON bodies
+ * pretty-printed and tables aligned. Scenarios expanded from an outline are
+ * written back as the outline, and included steps as their `include:` step.
+ * Sections the runner doesn't read are kept as written, after the scenarios.
+ * @param feature The feature, as parsed or built in code
+ * @returns The markdown, ending with a newline
+ */
+export function serializeFeature(feature: Feature): string {
+  const featureTags = feature.tags || [];
+  const keywords = languageKeywords(feature.scenarios[0]?.language);
+  const blocks: string[] = [];
+
+  const frontMatter = serializeFrontMatter(feature.context);
+  if (frontMatter) {
+    blocks.push(frontMatter);
+  }
+
+  // Tags from a `Tags:` context value are written there, the rest on the title
+  const contextTags = feature.context.Tags ?? feature.context.tags ?? [];
+  const listedTags = parseTagList(Array.isArray(contextTags) ? contextTags.join(' ') : String(contextTags));
+  blocks.push(`# ${withTags(feature.title, featureTags.filter(tag => !listedTags.includes(tag)))}`);
+
+  if (feature.description) {
+    blocks.push(feature.description.trim());
+  }
+
+  const context = serializeContext(feature.context);
+  if (context) {
+    blocks.push(`## Context\n${context}`);
+  }
+
+  if (feature.background && feature.background.length > 0) {
+    blocks.push('## Background', serializeSteps(feature.background, keywords));
+  }
+
+  const [first] = feature.scenarios;
+  // A lone scenario named after the file is written without a heading of its own
+  if (feature.scenarios.length === 1 && !first.location && !first.example && first.title === feature.title) {
+    blocks.push(...serializeScenarioSections(first, first, keywords, false));
+  } else {
+    groupOutlines(feature.scenarios).forEach(group => {
+      blocks.push(...serializeScenarioGroup(group, featureTags, keywords));
+    });
+  }
+
+  blocks.push(...(feature.notes || []));
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Write a single scenario as canonical markdown, with its feature's title,
+ * context and background
+ * @param scenario The scenario, as parsed or built in code
+ */
+export function serializeScenario(scenario: Scenario): string {
+  return serializeFeature({
+    title: scenario.feature || scenario.title,
+    context: scenario.context,
+    background: scenario.background,
+    scenarios: [scenario],
+    testType: scenario.testType,
+    filePath: scenario.filePath
+  });
+}
+
+/**
+ * Format a scenario file, making sure the result reads back as the same
+ * scenarios and keeps all of the file's text
+ * @param content The markdown scenario file
+ * @param filePath The path the content was read from
+ * @throws If the file doesn't parse, or formatting would change its meaning
+ * or drop something the scenario model doesn't hold
+ */
+export function formatScenarioFile(content: string, filePath: string, parser = new ScenarioParser()): string {
+  const feature = parser.parseFeature(content, filePath);
+  const formatted = serializeFeature(feature);
+
+  const droppedLine = findDroppedLine(content, formatted);
+  if (droppedLine !== undefined) {
+    const text = content.split(/\r?\n/)[droppedLine - 1].trim();
+    throw new Error(`Formatting would drop line ${droppedLine} ("${text}"), leaving the file as it is`);
+  }
+
+  if (summarize(parser.parseFeature(formatted, filePath)) !== summarize(feature)) {
+    throw new Error('Formatting would change the scenarios, leaving the file as it is');
+  }
+
+  return formatted;
+}
+
+/**
+ * Describe what a feature does, ignoring where things are written
+ */
+function summarize(feature: Feature): string {
+  const steps = (list: ScenarioStep[] = []) => list.map(step => ({
+    type: step.type,
+    instruction: step.instruction.split('\n')[0],
+    details: step.details,
+    include: step.includedFrom && { path: step.includedFrom.path, parameters: step.includedFrom.parameters }
+  }));
+
+  return JSON.stringify({
+    title: feature.title,
+    context: Object.fromEntries(Object.entries(feature.context).sort(([a], [b]) => a.localeCompare(b))),
+    tags: feature.tags,
+    background: steps(feature.background),
+    scenarios: feature.scenarios.map(scenario => ({
+      title: scenario.title,
+      tags: scenario.tags,
+      example: scenario.example && scenario.example.values,
+      setup: steps(scenario.setup),
+      steps: steps(scenario.steps),
+      teardown: steps(scenario.teardown)
+    }))
+  });
+}
+
+/**
+ * Find the first line with a word the formatted file doesn't have. Text the
+ * parser skips, like a numbered item without a step keyword, is lost on
+ * formatting; renumbering, spacing and punctuation changes are not.
+ * @returns The 1-based line number, or undefined when every word is kept
+ */
+function findDroppedLine(content: string, formatted: string): number | undefined {
+  const words = (line: string) => line.replace(/^\s*\d+[.)]\s+/, '').match(/[\p{L}\p{N}]+/gu) || [];
+  const remaining = new Map<string, number>();
+
+  for (const word of formatted.split('\n').flatMap(words)) {
+    remaining.set(word, (remaining.get(word) || 0) + 1);
+  }
+
+  const lines = content.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    for (const word of words(lines[index])) {
+      const count = remaining.get(word) || 0;
+      if (count === 0) {
+        return index + 1;
+      }
+      remaining.set(word, count - 1);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Split scenarios into runs, keeping the rows of one outline together
+ */
+function groupOutlines(scenarios: Scenario[]): Scenario[][] {
+  const groups: Scenario[][] = [];
+
+  for (const scenario of scenarios) {
+    const previous = groups[groups.length - 1];
+    const template = scenario.example?.template;
+
+    if (template && previous && previous[0].example?.template === template) {
+      previous.push(scenario);
+    } else {
+      groups.push([scenario]);
+    }
+  }
+
+  return groups;
+}
+
+function serializeScenarioGroup(group: Scenario[], featureTags: string[], keywords: StepKeywords): string[] {
+  const [scenario] = group;
+  const tags = (scenario.tags || []).filter(tag => !featureTags.includes(tag));
+  const example = scenario.example;
+
+  if (!example?.template) {
+    return [
+      `## Scenario: ${withTags(scenario.title, tags)}`,
+      ...serializeScenarioSections(scenario, scenario, keywords)
+    ];
+  }
+
+  const headers = Object.keys(example.values);
+  const rows = group.map(row => headers.map(header => row.example!.values[header] ?? ''));
+
+  return [
+    `## Scenario Outline: ${withTags(example.outline, tags)}`,
+    ...serializeScenarioSections(scenario, example.template, keywords),
+    '### Examples',
+    serializeTable([headers, ...rows])
+  ];
+}
+
+/**
+ * @param withSteps Whether to write the `### Steps` heading when there are no steps
+ */
+function serializeScenarioSections(
+  scenario: Scenario,
+  steps: Pick<Scenario, 'steps' | 'setup' | 'teardown'>,
+  keywords: StepKeywords,
+  withSteps = true
+): string[] {
+  const blocks: string[] = [];
+
+  if (scenario.description) {
+    blocks.push(scenario.description.trim());
+  }
+
+  if (steps.setup && steps.setup.length > 0) {
+    blocks.push('### Setup', serializeSteps(steps.setup, keywords));
+  }
+
+  if (steps.steps.length > 0) {
+    blocks.push('### Steps', serializeSteps(steps.steps, keywords));
+  } else if (withSteps) {
+    blocks.push('### Steps');
+  }
+
+  if (steps.teardown && steps.teardown.length > 0) {
+    blocks.push('### Teardown', serializeSteps(steps.teardown, keywords));
+  }
+
+  blocks.push(...(scenario.notes || []));
+
+  return blocks;
+}
+
+function serializeSteps(steps: ScenarioStep[], keywords: StepKeywords): string {
+  const lines: string[] = [];
+  let number = 0;
+
+  for (let index = 0; index < steps.length; index++) {
+    const step = steps[index];
+    const include = step.includedFrom;
+    number++;
+
+    if (!include) {
+      lines.push(...serializeStep(step, number, keywords));
+      continue;
+    }
+
+    // Steps inlined from the same include step are written as that step
+    while (index + 1 < steps.length && isSameInclude(steps[index + 1].includedFrom, include)) {
+      index++;
+    }
+
+    lines.push(...serializeStep(includeStep(include, step), number, keywords));
+  }
+
+  return lines.join('\n');
+}
+
+function isSameInclude(candidate: StepInclude | undefined, include: StepInclude): boolean {
+  return candidate !== undefined &&
+    candidate.path === include.path &&
+    candidate.location?.line === include.location?.line &&
+    JSON.stringify(candidate.parameters) === JSON.stringify(include.parameters);
+}
+
+function includeStep(include: StepInclude, firstStep: ScenarioStep): ScenarioStep {
+  const parameters = Object.entries(include.parameters).map(([name, value]) => `- ${name}: ${value}`);
+
+  return {
+    type: include.type || firstStep.type,
+    keyword: include.keyword,
+    instruction: [`include: ${include.path}`, ...parameters].join('\n')
+  };
+}
+
+function serializeStep(step: ScenarioStep, number: number, keywords: StepKeywords): string[] {
+  const keyword = step.keyword && matchStepKeyword(keywords, step.keyword) === step.type
+    ? step.keyword
+    : keywords[step.type][0];
+  const marker = `${number}. `;
+
+  // Details written under the step are part of its instruction text; details
+  // built in code are written out after a one-line instruction
+  const instructionLines = step.instruction.trim().split('\n');
+  const lines = instructionLines.length === 1 && step.details
+    ? [...instructionLines, ...serializeDetails(step.details)]
+    : formatInstructionLines(instructionLines);
+
+  const [first, ...rest] = lines;
+  return [
+    `${marker}**${keyword}** ${first}`,
+    ...rest.map(line => (line ? `${' '.repeat(marker.length)}${line}` : ''))
+  ];
+}
+
+function serializeDetails(details: StepDetails): string[] {
+  const lines: string[] = [];
+
+  if (details.body !== undefined) {
+    lines.push('```json', ...JSON.stringify(details.body, null, 2).split('\n'), '```');
+  } else if (details.code) {
+    lines.push(`\`\`\`${details.code.language || ''}`, ...details.code.content.split('\n'), '```');
+  }
+
+  Object.entries(details.expectations || {}).forEach(([key, value]) => {
+    lines.push(`- ${key}: ${formatValue(value)}`);
+  });
+
+  if (details.table && details.table.length > 0) {
+    const headers = Array.from(new Set(details.table.flatMap(row => Object.keys(row))));
+    const rows = details.table.map(row => headers.map(header => (header in row ? formatValue(row[header]) : '')));
+    lines.push('', ...serializeTable([headers, ...rows]).split('\n'));
+  }
+
+  return lines;
+}
+
+/**
+ * Tidy the lines of an instruction as written: pretty-print fenced JSON,
+ * align tables and drop trailing whitespace
+ */
+function formatInstructionLines(lines: string[]): string[] {
+  const formatted: string[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trimEnd();
+    const fenceMatch = line.match(/^(\s*)(`{3,}|~{3,})\s*(\S*)/);
+
+    if (fenceMatch) {
+      const [, indentation, fence, language] = fenceMatch;
+      const end = lines.findIndex((candidate, position) => position > index && candidate.trim() === fence);
+
+      if (end !== -1) {
+        const content = lines.slice(index + 1, end).map(contentLine => contentLine.substring(indentation.length));
+        formatted.push(line, ...formatCodeBlock(content, language).map(contentLine => `${indentation}${contentLine}`), `${indentation}${fence}`);
+        index = end;
+        continue;
+      }
+    }
+
+    if (line.trim().startsWith('|')) {
+      let end = index;
+      while (end + 1 < lines.length && lines[end + 1].trim().startsWith('|')) {
+        end++;
+      }
+      const indentation = line.match(/^\s*/)![0];
+      const rows = lines.slice(index, end + 1)
+        .filter(row => !/^\|[\s:|-]+\|$/.test(row.trim()))
+        .map(splitTableRow);
+      formatted.push(...serializeTable(rows).split('\n').map(row => `${indentation}${row}`));
+      index = end;
+      continue;
+    }
+
+    formatted.push(line);
+  }
+
+  return formatted;
+}
+
+function formatCodeBlock(content: string[], language: string): string[] {
+  if (language.toLowerCase() !== 'json') {
+    return content.map(line => line.trimEnd());
+  }
+
+  try {
+    return JSON.stringify(JSON.parse(content.join('\n')), null, 2).split('\n');
+  } catch {
+    // Leave JSON that doesn't parse for lint to report
+    return content.map(line => line.trimEnd());
+  }
+}
+
+function splitTableRow(row: string): string[] {
+  return row.trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map(cell => cell.trim());
+}
+
+/**
+ * Write rows as a markdown table, header first, with aligned columns
+ */
+function serializeTable(rows: string[][]): string {
+  const columns = Math.max(...rows.map(row => row.length));
+  const widths = Array.from({ length: columns }, (_, column) =>
+    Math.max(3, ...rows.map(row => (row[column] ?? '').length)));
+  const formatRow = (row: string[]) =>
+    `| ${widths.map((width, column) => (row[column] ?? '').padEnd(width)).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return [
+    formatRow(header),
+    `|${widths.map(width => '-'.repeat(width + 2)).join('|')}|`,
+    ...body.map(formatRow)
+  ].join('\n');
+}
+
+/**
+ * Write a detail value so that it reads back as the same value
+ */
+function formatValue(value: any): string {
+  if (typeof value === 'string' && value === value.trim() && parseDetailValue(value) === value && !value.includes('|')) {
+    return value;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Write string context values as `- key: value` bullets
+ */
+function serializeContext(context: ScenarioContext): string {
+  return Object.entries(context)
+    .filter(([, value]) => typeof value === 'string')
+    .map(([key, value]) => `- ${key}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * Write context values that aren't strings as YAML front matter, so they
+ * keep their types
+ */
+function serializeFrontMatter(context: ScenarioContext): string | undefined {
+  const typed = Object.fromEntries(
+    Object.entries(context).filter(([, value]) => typeof value !== 'string')
+  );
+
+  if (Object.keys(typed).length === 0) {
+    return undefined;
+  }
+
+  return `---\n${yaml.dump(typed).trimEnd()}\n---`;
+}
+
+function withTags(title: string, tags: string[]): string {
+  return [title, ...tags.map(tag => `@${tag}`)].join(' ');
+}
+
+function languageKeywords(language: string | undefined): StepKeywords {
+  return language ? getStepKeywords(language) : DEFAULT_STEP_KEYWORDS;
+}
@@ -0,0 +1,81 @@
+import { StepDetails } from '../types/scenario';
+
+/**
+ * Type a value written in a sub-bullet or table cell. Numbers, booleans,
+ * null, quoted strings and inline JSON are parsed, anything else is kept as
+ * written.
+ * @param raw The value as written
+ */
+export function parseDetailValue(raw: string): any {
+  const value = raw.trim();
+
+  if (/^(-?\d+(\.\d+)?|true|false|null)$/.test(value) || /^["[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Not JSON after all, e.g. an unbalanced quote
+    }
+  }
+
+  if (/^'.*'$/.test(value)) {
+    return value.slice(1, -1);
+  }
+
+  return value;
+}
+
+/**
+ * Parse a JSON object or array written under a step
+ * @param text The text to parse
+ * @returns The parsed value, or undefined when the text isn't JSON
+ */
+export function parseJSONBody(text: string): any {
+  const trimmed = text.trim();
+
+  if (!/^[[{]/.test(trimmed)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Key table rows by the header row, typing each cell
+ * @param rows The table rows, header first
+ */
+export function tableToRecords(rows: string[][]): Array<Record<string, any>> {
+  const [header, ...body] = rows;
+
+  if (!header) {
+    return [];
+  }
+
+  return body.map(row => {
+    const record: Record<string, any> = {};
+    header.forEach((name, column) => {
+      record[name] = parseDetailValue(row[column] ?? '');
+    });
+    return record;
+  });
+}
+
+/**
+ * Record a code block written under a step, as the body when it's JSON
+ * @param details The details to add to
+ * @param content The content of the block
+ * @param language The language of a fenced block or media type of a doc string
+ */
+export function addCodeBlock(details: StepDetails, content: string, language?: string): void {
+  const isJSON = !language || /json/i.test(language);
+  const body = isJSON ? parseJSONBody(content) : undefined;
+
+  if (body !== undefined) {
+    details.body = body;
+  } else {
+    details.code = { language, content };
+  }
+}
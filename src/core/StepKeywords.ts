@@ -0,0 +1,105 @@
+import { StepType } from '../types/scenario';
+
+/**
+ * The words that start a step in one language, e.g. `**Wenn**` in German
+ */
+export interface StepKeywords {
+  language: string;
+  given: string[];
+  when: string[];
+  then: string[];
+  and: string[];
+}
+
+const STEP_KEYWORDS: StepKeywords[] = [
+  {
+    language: 'en',
+    given: ['Given'],
+    when: ['When'],
+    then: ['Then'],
+    and: ['And', 'But']
+  },
+  {
+    language: 'de',
+    given: ['Angenommen', 'Gegeben sei', 'Gegeben seien'],
+    when: ['Wenn'],
+    then: ['Dann'],
+    and: ['Und', 'Aber']
+  },
+  {
+    language: 'es',
+    given: ['Dado', 'Dada', 'Dados', 'Dadas'],
+    when: ['Cuando'],
+    then: ['Entonces'],
+    and: ['Y', 'E', 'Pero']
+  },
+  {
+    language: 'fr',
+    given: ['Soit', 'Étant donné', 'Étant donnée', 'Étant donnés', 'Étant données', 'Sachant que'],
+    when: ['Quand', 'Lorsque'],
+    then: ['Alors', 'Donc'],
+    and: ['Et', 'Mais']
+  },
+  {
+    language: 'it',
+    given: ['Dato', 'Data', 'Dati', 'Date'],
+    when: ['Quando'],
+    then: ['Allora'],
+    and: ['E', 'Ma']
+  },
+  {
+    language: 'nl',
+    given: ['Gegeven', 'Stel'],
+    when: ['Als', 'Wanneer'],
+    then: ['Dan'],
+    and: ['En', 'Maar']
+  },
+  {
+    language: 'pt',
+    given: ['Dado', 'Dada', 'Dados', 'Dadas'],
+    when: ['Quando'],
+    then: ['Então', 'Entao'],
+    and: ['E', 'Mas']
+  }
+];
+
+export const DEFAULT_STEP_KEYWORDS = STEP_KEYWORDS[0];
+
+/**
+ * Get the step keywords of a language
+ * @param language A language code such as `de`, in any case; regional
+ * variants such as `de-CH` use the keywords of the language
+ * @throws If there are no keywords for the language
+ */
+export function getStepKeywords(language: string): StepKeywords {
+  const code = language.trim().toLowerCase().split(/[-_]/)[0];
+  const keywords = STEP_KEYWORDS.find(candidate => candidate.language === code);
+
+  if (!keywords) {
+    const languages = STEP_KEYWORDS.map(candidate => candidate.language).join(', ');
+    throw new Error(`Unknown language "${language}", expected one of ${languages}`);
+  }
+
+  return keywords;
+}
+
+/**
+ * Find the step type a keyword stands for
+ * @param keywords The keywords of the scenario's language
+ * @param keyword The keyword as written, e.g. `Wenn`
+ */
+export function matchStepKeyword(keywords: StepKeywords, keyword: string): StepType | undefined {
+  const types: StepType[] = ['given', 'when', 'then', 'and'];
+  return types.find(type => keywords[type].includes(keyword));
+}
+
+/**
+ * Describe the keywords of a language for error messages, e.g.
+ * `**Given**, **When**, **Then** or **And**`
+ */
+export function describeStepKeywords(keywords: StepKeywords): string {
+  const names = [keywords.given[0], keywords.when[0], keywords.then[0], keywords.and[0]]
+    .map(keyword => `**${keyword}**`);
+
+  return `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
@@ -0,0 +1,48 @@
+import { parseRoutePrefix, parseRoutingResponse } from './StepRouting';
+import { TestTypeRegistry } from './TestTypeRegistry';
+
+describe('StepRouting', () => {
+  const testTypes = new TestTypeRegistry();
+
+  describe('parseRoutePrefix', () => {
+    it('splits off a test type prefix', () => {
+      expect(parseRoutePrefix('[api] I send a GET request to "/users"', testTypes)).toEqual({
+        instruction: 'I send a GET request to "/users"',
+        route: 'api'
+      });
+    });
+
+    it('resolves aliases to the name of their test type', () => {
+      expect(parseRoutePrefix('[DB] the users table should have 2 rows', testTypes).route).toBe('database');
+    });
+
+    it('leaves a markdown link as part of the instruction', () => {
+      const instruction = '[docs](https://example.com/docs) should describe the endpoint';
+
+      expect(parseRoutePrefix(instruction, testTypes)).toEqual({ instruction });
+    });
+
+    it('leaves brackets naming no test type as part of the instruction', () => {
+      const instruction = '[draft] the post should not be listed';
+
+      expect(parseRoutePrefix(instruction, testTypes)).toEqual({ instruction });
+    });
+
+    it('accepts test types registered by addons', () => {
+      const registry = new TestTypeRegistry();
+      registry.register({ name: 'queue', adapters: ['queue'] });
+
+      expect(parseRoutePrefix('[queue] a message should be published', registry).route).toBe('queue');
+    });
+  });
+
+  describe('parseRoutingResponse', () => {
+    it('finds the test type named in the answer', () => {
+      expect(parseRoutingResponse('This step talks to the DB.', testTypes.getDefinitions())).toBe('database');
+    });
+
+    it('returns undefined when the answer names no test type', () => {
+      expect(parseRoutingResponse('Not sure', testTypes.getDefinitions())).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { TestTypeDefinition } from '../types/addon';
+import { TestType } from '../types/scenario';
+import { TestTypeRegistry } from './TestTypeRegistry';
+
+// A `[name]` not followed by `(`, which would make it a markdown link
+const ROUTE_PREFIX_PATTERN = /^\[([\w-]+)\](?!\()\s*/;
+
+/**
+ * Split a test type prefix off a step instruction, e.g.
+ * `[api] I send a POST request to "/users"`. Brackets naming no registered
+ * test type, or starting a link such as `[docs](...)`, are part of the
+ * instruction.
+ * @param instruction The step instruction
+ * @param testTypes The test types a prefix may name
+ * @returns The instruction without the prefix, and the name of the test type
+ * if there was one
+ */
+export function parseRoutePrefix(
+  instruction: string,
+  testTypes: TestTypeRegistry
+): { instruction: string; route?: TestType } {
+  const prefixMatch = instruction.match(ROUTE_PREFIX_PATTERN);
+  const definition = prefixMatch ? testTypes.resolve(prefixMatch[1]) : undefined;
+
+  if (!prefixMatch || !definition) {
+    return { instruction };
+  }
+
+  return {
+    instruction: instruction.substring(prefixMatch[0].length),
+    route: definition.name.toLowerCase()
+  };
+}
+
+/**
+ * Build the prompt asking the LLM which test type a step belongs to
+ * @param instruction The step instruction
+ * @param candidates The test types the step can run as
+ */
+export function buildRoutingPrompt(instruction: string, candidates: TestTypeDefinition[]): string {
+  const kinds = candidates
+    .map(definition => `- ${definition.name}: ${definition.description || definition.name}`)
+    .join('\n');
+
+  return `Decide which system a test step talks to, so it runs against the right adapter.
+
+Step: "${instruction}"
+
+Kinds of step:
+${kinds}
+
+Answer with the name of one kind only.`;
+}
+
+/**
+ * Find the test type the LLM answered with
+ * @param response The LLM's answer
+ * @param candidates The test types offered
+ * @returns The name of the test type, or undefined if the answer names none
+ */
+export function parseRoutingResponse(response: string, candidates: TestTypeDefinition[]): string | undefined {
+  const words = response.toLowerCase().match(/[\w-]+/g) || [];
+
+  for (const word of words) {
+    const definition = candidates.find(candidate =>
+      candidate.name.toLowerCase() === word ||
+      (candidate.aliases || []).some(alias => alias.toLowerCase() === word)
+    );
+
+    if (definition) {
+      return definition.name.toLowerCase();
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,60 @@
+import { ExecutionConfig } from '../types/config';
+import { ScenarioContext } from '../types/scenario';
+
+const TIMEOUT_ANNOTATION_PATTERN = /\s*\[timeout:\s*([^\]]+)\]/i;
+
+/**
+ * Time a scenario's teardown steps and after-hooks get in milliseconds, unless
+ * `execution.teardownTimeout` says otherwise
+ */
+export const DEFAULT_TEARDOWN_TIMEOUT = 30000;
+
+/**
+ * Resolve how long each step of a scenario may take: a `StepTimeout` in the
+ * scenario's context overrides `execution.stepTimeout`
+ * @param execution The execution configuration
+ * @param context The scenario context
+ * @returns The timeout in milliseconds, or undefined when steps may take any time
+ * @throws If a value is not a duration
+ */
+export function resolveStepTimeout(execution: ExecutionConfig = {}, context: ScenarioContext = {}): number | undefined {
+  const timeout = context.StepTimeout ?? context.stepTimeout ?? execution.stepTimeout;
+  return timeout === undefined ? undefined : parseDuration(timeout, 'StepTimeout');
+}
+
+/**
+ * Split a `[timeout: 30s]` annotation off a step instruction, e.g.
+ * `I run the nightly import [timeout: 2m]`
+ * @param instruction The step instruction
+ * @returns The instruction without the annotation, and the timeout in
+ * milliseconds if there was one
+ */
+export function parseTimeoutAnnotation(instruction: string): { instruction: string; timeout?: number } {
+  const annotationMatch = instruction.match(TIMEOUT_ANNOTATION_PATTERN);
+
+  if (!annotationMatch) {
+    return { instruction };
+  }
+
+  return {
+    instruction: instruction.replace(TIMEOUT_ANNOTATION_PATTERN, ''),
+    timeout: parseDuration(annotationMatch[1])
+  };
+}
+
+/**
+ * Read a duration written as milliseconds, e.g. `5000`, or with a unit,
+ * e.g. `500ms`, `30s`, `2m`
+ * @param name What the value is, named in the error
+ * @throws If the value is not a duration
+ */
+function parseDuration(value: any, name: string = 'timeout'): number {
+  const durationMatch = String(value).trim().match(/^(\d+)\s*(ms|s|m)?$/i);
+
+  if (!durationMatch) {
+    throw new Error(`Invalid ${name} "${value}", expected milliseconds or a duration such as 30s`);
+  }
+
+  const multipliers: Record<string, number> = { ms: 1, s: 1000, m: 60000 };
+  return parseInt(durationMatch[1], 10) * multipliers[(durationMatch[2] || 'ms').toLowerCase()];
+}
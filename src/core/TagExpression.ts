@@ -0,0 +1,101 @@
+/**
+ * Decides whether a scenario with the given tags should run
+ */
+export type TagFilter = (tags: string[]) => boolean;
+
+/**
+ * Parse a tag expression such as `smoke and not slow` or
+ * `@api and (@smoke or @regression)`. Tags may be written with or without
+ * the leading `@`; `not` binds tighter than `and`, which binds tighter than `or`.
+ * @param expression The tag expression
+ * @returns A filter matching scenarios whose tags satisfy the expression
+ */
+export function parseTagExpression(expression: string): TagFilter {
+  const tokens = expression.match(/\(|\)|[^\s()]+/g) || [];
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid tag expression "${expression}": ${message}`);
+  };
+
+  const peek = (): string | undefined => tokens[position]?.toLowerCase();
+
+  const parseOr = (): TagFilter => {
+    let left = parseAnd();
+    while (peek() === 'or') {
+      position++;
+      const [first, second] = [left, parseAnd()];
+      left = tags => first(tags) || second(tags);
+    }
+    return left;
+  };
+
+  const parseAnd = (): TagFilter => {
+    let left = parseNot();
+    while (peek() === 'and') {
+      position++;
+      const [first, second] = [left, parseNot()];
+      left = tags => first(tags) && second(tags);
+    }
+    return left;
+  };
+
+  const parseNot = (): TagFilter => {
+    if (peek() === 'not') {
+      position++;
+      const operand = parseNot();
+      return tags => !operand(tags);
+    }
+    return parseTag();
+  };
+
+  const parseTag = (): TagFilter => {
+    const token = tokens[position++];
+
+    if (token === undefined) {
+      return fail('unexpected end of expression');
+    }
+
+    if (token === '(') {
+      const inner = parseOr();
+      if (tokens[position++] !== ')') {
+        fail('missing closing parenthesis');
+      }
+      return inner;
+    }
+
+    if (token === ')' || ['and', 'or', 'not'].includes(token.toLowerCase())) {
+      return fail(`unexpected "${token}"`);
+    }
+
+    const tag = normalizeTag(token);
+    return tags => tags.some(candidate => normalizeTag(candidate) === tag);
+  };
+
+  if (tokens.length === 0) {
+    return fail('expression is empty');
+  }
+
+  const filter = parseOr();
+
+  if (position < tokens.length) {
+    fail(`unexpected "${tokens[position]}"`);
+  }
+
+  return filter;
+}
+
+/**
+ * Read tags written as `@smoke @slow` or `smoke, slow`
+ * @param text The tags as written
+ */
+export function parseTagList(text: string): string[] {
+  return text
+    .split(/[\s,]+/)
+    .map(normalizeTag)
+    .filter(tag => tag.length > 0);
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^@/, '');
+}
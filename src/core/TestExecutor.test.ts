@@ -0,0 +1,505 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { APIAdapter } from '../adapters/APIAdapter';
+import { BaseAdapter } from '../adapters/BaseAdapter';
+import { LLMAdapter } from '../adapters/LLMAdapter';
+import { ScreenState, UIAction } from '../types/actions';
+import { CapabilityRegistry } from './CapabilityRegistry';
+import { InterpretationLock } from './InterpretationLock';
+import { ScenarioParser } from './ScenarioParser';
+import { TestExecutor, TestExecutorConfig } from './TestExecutor';
+
+/**
+ * An LLM provider declared the way the real ones are, answering routing
+ * prompts with a fixed test type
+ */
+class StubLLMAdapter extends BaseAdapter implements LLMAdapter {
+  prompts: string[] = [];
+
+  async initialize(): Promise<void> {}
+
+  async cleanup(): Promise<void> {}
+
+  async complete(prompt: string): Promise<string> {
+    this.prompts.push(prompt);
+    return prompt.startsWith('Decide which system') ? 'api' : '{}';
+  }
+
+  async suggestAction(instruction: string, screenState: ScreenState): Promise<UIAction> {
+    return { actionType: 'click', target: { text: instruction }, confidence: 1 };
+  }
+
+  async verifyCondition(condition: string, screenState: ScreenState): Promise<{ success: boolean; reason?: string }> {
+    return { success: true };
+  }
+}
+
+function jsonResponse(status: number, body: any): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('TestExecutor', () => {
+  const parser = new ScenarioParser();
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createExecutor(llm: BaseAdapter, config: TestExecutorConfig = {}): TestExecutor {
+    const executor = new TestExecutor(config, new CapabilityRegistry({ cachingEnabled: false }));
+    executor.registerAdapter('llm', llm);
+    executor.registerAdapter('api', new APIAdapter({ baseUrl: 'https://example.com' }));
+    return executor;
+  }
+
+  it('asks an LLM provider which adapter runs an unprefixed step', async () => {
+    const llm = new StubLLMAdapter({});
+    const executor = createExecutor(llm);
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }));
+
+    const [scenario] = parser.parseFeature(`# Mixed
+
+## Context
+- Type: Mixed
+
+## Scenario: Fetch
+
+### Steps
+1. **When** I send a GET request to "/users/1"
+`, 'mixed.md').scenarios;
+    const result = await executor.executeScenario(scenario);
+
+    expect(result.success).toBe(true);
+    expect(llm.prompts.some(prompt => prompt.startsWith('Decide which system'))).toBe(true);
+    expect(result.stepResults?.[0].resolution?.adapter).toBe('api');
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/users/1', expect.objectContaining({ method: 'GET' }));
+  });
+
+  it('shares an LLM provider, the events and the lockfile with the other workers', async () => {
+    const load = jest.spyOn(InterpretationLock.prototype, 'load');
+    const llm = new StubLLMAdapter({});
+    const clone = jest.spyOn(llm, 'clone');
+    const executor = createExecutor(llm, {
+      execution: {
+        workers: 2,
+        updateLock: true,
+        lockfile: path.join(os.tmpdir(), `craft-a-tester-${process.pid}.lock.json`)
+      }
+    });
+    const ended: string[] = [];
+    executor.events.on('scenarioEnd', ({ scenario }) => ended.push(scenario.title));
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }));
+
+    const { scenarios } = parser.parseFeature(`# Users
+
+## Context
+- Type: API
+
+## Scenario: First
+
+### Steps
+1. **When** I send a GET request to "/users/1"
+
+## Scenario: Second
+
+### Steps
+1. **When** I send a GET request to "/users/2"
+`, 'users.md');
+    const results = await executor.executeScenarios(scenarios);
+
+    expect(results.map(result => result.success)).toEqual([true, true]);
+    expect(clone).not.toHaveBeenCalled();
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(ended.sort()).toEqual(['First', 'Second']);
+  });
+
+  it('does not let a scenario verify the response of the one before it on the same worker', async () => {
+    const executor = createExecutor(new StubLLMAdapter({}));
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }));
+
+    const { scenarios } = parser.parseFeature(`# Users
+
+## Context
+- Type: API
+
+## Scenario: Request
+
+### Steps
+1. **When** I send a GET request to "/users/1"
+2. **Then** the response status should be 200
+
+## Scenario: No request
+
+### Steps
+1. **Then** the response status should be 200
+`, 'users.md');
+    const results = await executor.executeScenarios(scenarios);
+
+    expect(results[0].success).toBe(true);
+    expect(results[1].success).toBe(false);
+    expect(results[1].stepResults?.[0].error).toContain('No previous API response to verify');
+  });
+
+  describe('lifecycle hooks', () => {
+    const [scenario] = parser.parseFeature(`# Users
+
+## Context
+- Type: API
+
+## Scenario: Fetch
+
+### Steps
+1. **When** I send a GET request to "/users/1"
+
+### Teardown
+1. **When** I send a DELETE request to "/users/1"
+`, 'users.md').scenarios;
+
+    function recordHooks(executor: TestExecutor, name: string, calls: string[]): void {
+      executor.addHooks({
+        beforeAll: () => { calls.push(`${name}.beforeAll`); },
+        beforeScenario: () => { calls.push(`${name}.beforeScenario`); },
+        beforeStep: (_scenario, step) => { calls.push(`${name}.beforeStep ${step.instruction}`); },
+        afterStep: (_scenario, step) => { calls.push(`${name}.afterStep ${step.instruction}`); },
+        afterScenario: () => { calls.push(`${name}.afterScenario`); },
+        afterAll: () => { calls.push(`${name}.afterAll`); }
+      });
+    }
+
+    beforeEach(() => {
+      fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }));
+    });
+
+    it('calls every hook around what it wraps, in the order the hooks were added', async () => {
+      const executor = createExecutor(new StubLLMAdapter({}));
+      const calls: string[] = [];
+      recordHooks(executor, 'first', calls);
+      recordHooks(executor, 'second', calls);
+
+      await executor.startRun(['users.md']);
+      const result = await executor.executeScenario(scenario);
+      await executor.finishRun({ total: 1, passed: 1, failed: 0, skipped: 0, results: [result], duration: 0 });
+
+      const get = 'I send a GET request to "/users/1"';
+      const remove = 'I send a DELETE request to "/users/1"';
+      expect(calls).toEqual([
+        'first.beforeAll', 'second.beforeAll',
+        'first.beforeScenario', 'second.beforeScenario',
+        `first.beforeStep ${get}`, `second.beforeStep ${get}`,
+        `first.afterStep ${get}`, `second.afterStep ${get}`,
+        `first.beforeStep ${remove}`, `second.beforeStep ${remove}`,
+        `first.afterStep ${remove}`, `second.afterStep ${remove}`,
+        'first.afterScenario', 'second.afterScenario',
+        'first.afterAll', 'second.afterAll'
+      ]);
+    });
+
+    it('skips the steps after a failing beforeScenario hook, but still runs teardown and afterScenario', async () => {
+      const executor = createExecutor(new StubLLMAdapter({}));
+      const calls: string[] = [];
+      executor.addHooks({ beforeScenario: () => { throw new Error('no seed data'); } });
+      recordHooks(executor, 'later', calls);
+
+      const result = await executor.executeScenario(scenario);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('beforeScenario hook failed: no seed data');
+      expect(result.steps.map(step => step.status)).toEqual(['skipped', 'passed']);
+      expect(calls).toEqual([
+        'later.beforeStep I send a DELETE request to "/users/1"',
+        'later.afterStep I send a DELETE request to "/users/1"',
+        'later.afterScenario'
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/users/1', expect.objectContaining({ method: 'DELETE' }));
+    });
+  });
+
+  it('gives a hung teardown and afterScenario hook a time limit once the scenario is cancelled', async () => {
+    const executor = createExecutor(new StubLLMAdapter({}), { execution: { teardownTimeout: 50 } });
+    executor.addHooks({ afterScenario: () => new Promise<void>(() => {}) });
+    // Requests that never answer, ignoring the abort signal
+    fetchMock.mockImplementation(() => new Promise<Response>(() => {}));
+
+    const [scenario] = parser.parseFeature(`# Users
+
+## Context
+- Type: API
+
+## Scenario: Hangs
+
+### Steps
+1. **When** I send a GET request to "/users/1"
+
+### Teardown
+1. **When** I send a DELETE request to "/users/1"
+`, 'users.md').scenarios;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('Test execution timed out after 20ms')), 20);
+    const result = await executor.executeScenario(scenario, controller.signal);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Test execution timed out after 20ms');
+    expect(result.teardownErrors).toEqual([
+      expect.stringContaining('Teardown timed out after 50ms'),
+      'afterScenario hook failed: Teardown timed out after 50ms'
+    ]);
+  });
+
+  it('fails only the scenarios whose context can not be read, reporting their steps as skipped', async () => {
+    const executor = createExecutor(new StubLLMAdapter({}));
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }));
+    const { scenarios } = parser.parseFeature(`# Users
+
+## Context
+- Type: API
+- Retries: abc
+
+## Scenario: Fetch
+
+### Steps
+1. **When** I send a GET request to "/users/1"
+`, 'users.md');
+    const healthy = parser.parseFeature(`# Users
+
+## Context
+- Type: API
+
+## Scenario: Fetch
+
+### Steps
+1. **When** I send a GET request to "/users/1"
+`, 'healthy.md').scenarios;
+
+    const results = await executor.executeScenarios([...scenarios, ...healthy]);
+    const plan = await executor.plan(scenarios[0]);
+
+    expect(results[0].success).toBe(false);
+    expect(results[0].error).toBe('Invalid Retries "abc", expected a whole number of 0 or more');
+    expect(results[0].steps.map(step => step.status)).toEqual(['skipped']);
+    expect(results[1].success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(plan.error).toBe('Invalid Retries "abc", expected a whole number of 0 or more');
+  });
+
+  it('fails only the scenario with an unreadable step timeout, and plans its bad annotations as errors', async () => {
+    const executor = createExecutor(new StubLLMAdapter({}));
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }));
+    const [slow] = parser.parseFeature(`# Imports
+
+## Context
+- Type: API
+- StepTimeout: soon
+
+## Scenario: Import
+
+### Steps
+1. **When** I send a POST request to "/imports"
+`, 'imports.md').scenarios;
+    const [annotated] = parser.parseFeature(`# Imports
+
+## Context
+- Type: API
+
+## Scenario: Import
+
+### Steps
+1. **When** I send a POST request to "/imports" [timeout: soon]
+2. **Then** the response status should be 200
+`, 'annotated.md').scenarios;
+
+    const results = await executor.executeScenarios([slow, annotated]);
+    const plans = [await executor.plan(slow), await executor.plan(annotated)];
+
+    expect(results[0].error).toBe('Invalid StepTimeout "soon", expected milliseconds or a duration such as 30s');
+    expect(results[1].stepResults?.[0].error).toBe('Invalid timeout "soon", expected milliseconds or a duration such as 30s');
+    expect(plans[0].error).toBe('Invalid StepTimeout "soon", expected milliseconds or a duration such as 30s');
+    expect(plans[1].steps.map(step => step.error)).toEqual([
+      'Invalid timeout "soon", expected milliseconds or a duration such as 30s',
+      undefined
+    ]);
+  });
+
+  it('saves a value from a response and uses it in later requests, expectations and teardown', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 42, name: 'Ada' }));
+
+    const [scenario] = parser.parseFeature(`# Users
+
+## Context
+- Type: API
+
+## Scenario: Rename
+
+### Steps
+1. **When** I send a POST request to "/users" and save response body.id as userId
+2. **When** I send a PUT request to "/users/\${userId}" with body:
+   \`\`\`json
+   { "id": "\${userId}", "name": "Ada" }
+   \`\`\`
+3. **Then** the response body should contain:
+   - id: \${userId}
+
+### Teardown
+1. **When** I send a DELETE request to "/users/\${userId}"
+`, 'users.md').scenarios;
+    const result = await createExecutor(new StubLLMAdapter({})).executeScenario(scenario);
+
+    expect(result.success).toBe(true);
+    expect(result.variables).toEqual({ userId: 42 });
+    expect(fetchMock).toHaveBeenNthCalledWith(2, 'https://example.com/users/42', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ id: 42, name: 'Ada' })
+    }));
+    expect(fetchMock).toHaveBeenLastCalledWith('https://example.com/users/42', expect.objectContaining({ method: 'DELETE' }));
+  });
+
+  describe('with soft assertions', () => {
+    const [scenario] = parser.parseFeature(`# Users
+
+## Context
+- Type: API
+
+## Scenario: Fetch twice
+
+### Steps
+1. **When** I send a GET request to "/users/1"
+2. **Then** the response status should be 404
+3. **And** the response status should be 200
+4. **When** I send a GET request to "/users/2"
+5. **Then** the response status should be 200
+`, 'users.md').scenarios;
+
+    beforeEach(() => {
+      fetchMock
+        .mockImplementationOnce(async () => jsonResponse(200, { id: 1 }))
+        .mockRejectedValueOnce(new Error('socket hang up'));
+    });
+
+    it('runs the steps after a failing verification, but skips those after a failing action', async () => {
+      const result = await createExecutor(new StubLLMAdapter({}), { execution: { softAssertions: true } })
+        .executeScenario(scenario);
+
+      expect(result.success).toBe(false);
+      expect(result.steps.map(step => step.status)).toEqual(['passed', 'failed', 'passed', 'failed', 'skipped']);
+    });
+
+    it('are off by default, skipping everything after the first failure', async () => {
+      const result = await createExecutor(new StubLLMAdapter({})).executeScenario(scenario);
+
+      expect(result.steps.map(step => step.status)).toEqual(['passed', 'failed', 'skipped', 'skipped', 'skipped']);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retrying a failing step', () => {
+    function flakyScenario(context: string, step: string) {
+      return parser.parseFeature(`# Users
+
+## Context
+- Type: API
+- RetryDelay: 0
+${context}
+
+## Scenario: Fetch
+
+### Steps
+1. **When** ${step}
+`, 'users.md').scenarios[0];
+    }
+
+    beforeEach(() => {
+      fetchMock
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockImplementation(async () => jsonResponse(200, { id: 1 }));
+    });
+
+    it('passes a step that succeeds on a retry, recording its attempts', async () => {
+      const result = await createExecutor(new StubLLMAdapter({}))
+        .executeScenario(flakyScenario('- Retries: 1', 'I send a GET request to "/users/1"'));
+
+      expect(result.success).toBe(true);
+      expect(result.steps[0]).toMatchObject({ status: 'passed', attempts: 2 });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('lets an annotation on the step override the scenario context', async () => {
+      const executor = createExecutor(new StubLLMAdapter({}));
+
+      const retried = await executor
+        .executeScenario(flakyScenario('- Retries: 0', 'I send a GET request to "/users/1" [retries: 1]'));
+      fetchMock.mockRejectedValueOnce(new Error('socket hang up'));
+      const notRetried = await executor
+        .executeScenario(flakyScenario('- Retries: 1', 'I send a GET request to "/users/1" [retries: 0]'));
+
+      expect(retried.steps[0]).toMatchObject({ status: 'passed', attempts: 2 });
+      expect(notRetried.steps[0]).toMatchObject({ status: 'failed', attempts: 1 });
+      expect(notRetried.steps[0].error).toContain('socket hang up');
+    });
+  });
+
+  describe('with a lockfile', () => {
+    let directory: string;
+    let scenarioPath: string;
+    let lockfile: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'craft-a-tester-replay-'));
+      scenarioPath = path.join(directory, 'users.md');
+      lockfile = path.join(directory, 'craft-a-tester.lock.json');
+      fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    function writeScenario(url: string): void {
+      fs.writeFileSync(scenarioPath, `# Users
+
+## Context
+- Type: Mixed
+
+## Scenario: Fetch
+
+### Steps
+1. **When** I send a GET request to "${url}"
+`);
+    }
+
+    it('replays how steps were routed and interpreted without asking the LLM', async () => {
+      writeScenario('/users/1');
+      const recorded = await createExecutor(new StubLLMAdapter({}), { execution: { lockfile, updateLock: true } })
+        .runScenario(scenarioPath);
+      expect(recorded.failed).toBe(0);
+
+      const silentLLM = new StubLLMAdapter({});
+      jest.spyOn(silentLLM, 'complete').mockRejectedValue(new Error('The LLM is not asked in a locked run'));
+      fetchMock.mockClear();
+      const replayed = await createExecutor(silentLLM, { execution: { lockfile, locked: true } }).runScenario(scenarioPath);
+
+      expect(replayed.failed).toBe(0);
+      expect(silentLLM.complete).not.toHaveBeenCalled();
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/users/1', expect.objectContaining({ method: 'GET' }));
+    });
+
+    it('fails a step whose text changed since it was recorded', async () => {
+      writeScenario('/users/1');
+      await createExecutor(new StubLLMAdapter({}), { execution: { lockfile, updateLock: true } }).runScenario(scenarioPath);
+
+      writeScenario('/users/2');
+      const replayed = await createExecutor(new StubLLMAdapter({}), { execution: { lockfile, locked: true } })
+        .runScenario(scenarioPath);
+
+      expect(replayed.failed).toBe(1);
+      expect(replayed.results[0].stepResults?.[0].error).toContain('is not in the lockfile');
+    });
+  });
+});
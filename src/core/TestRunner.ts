@@ -9,7 +9,12 @@ import { AnthropicAdapter } from '../adapters/AnthropicAdapter';
 import { OpenAIAdapter } from '../adapters/OpenAIAdapter';
 import { OllamaAdapter } from '../adapters/OllamaAdapter';
 import { CraftacoderAdapter } from '../adapters/CraftacoderAdapter';
-import { TestResult } from '../types/results';
+import { ScenarioPlan, TestResult, TestResults } from '../types/results';
+import { LifecycleHooks } from '../types/addon';
+import { Reporter } from '../types/reporter';
+import { ExecutionEvents } from './ExecutionEvents';
+import { Feature, Scenario } from '../types/scenario';
+import { formatLocation } from '../utils/location';
 
 /**
  * LLM adapter type options
@@ -44,9 +49,20 @@ export interface TestRunnerConfig {
   
   /**
    * Addons to register
-   * The addons should be instances of classes that have a registerCapabilities method
+   * The addons should be instances of classes that have a registerCapabilities method,
+   * and may implement lifecycle hooks
    */
-  addons?: Array<{ registerCapabilities: (registry: CapabilityRegistry) => void }>;
+  addons?: Array<{ registerCapabilities: (registry: CapabilityRegistry) => void } & LifecycleHooks>;
+  
+  /**
+   * Lifecycle hooks of the project, called after those of the addons
+   */
+  hooks?: LifecycleHooks[];
+  
+  /**
+   * Reporters receiving events as tests run
+   */
+  reporters?: Reporter[];
   
   /**
    * Whether to enable caching
@@ -71,6 +87,58 @@ export interface TestRunnerConfig {
    * @default false
    */
   verbose?: boolean;
+  
+  /**
+   * Tag expression selecting the scenarios to run, e.g. "smoke and not slow"
+   * Scenarios that don't match are reported as skipped
+   */
+  tags?: string;
+  
+  /**
+   * Record failing verification steps and carry on, so one run shows every
+   * broken assertion
+   * @default false
+   */
+  softAssertions?: boolean;
+  
+  /**
+   * Longest a single step may take in milliseconds, after which it is aborted
+   * and fails
+   */
+  stepTimeout?: number;
+  
+  /**
+   * Time a scenario's teardown steps and after-hooks get in milliseconds,
+   * counted from when the scenario times out or its teardown starts
+   * @default 30000
+   */
+  teardownTimeout?: number;
+  
+  /**
+   * Scenarios run at once, each worker with its own instance of every
+   * adapter except the LLM
+   * @default 1
+   */
+  workers?: number;
+  
+  /**
+   * File step interpretations are recorded in and replayed from
+   * @default 'craft-a-tester.lock.json'
+   */
+  lockfile?: string;
+  
+  /**
+   * Record how each passing step was interpreted in the lockfile
+   * @default false
+   */
+  updateLock?: boolean;
+  
+  /**
+   * Replay interpretations from the lockfile instead of asking the LLM,
+   * failing steps that aren't in it
+   * @default false
+   */
+  locked?: boolean;
 }
 
 /**
@@ -125,7 +193,7 @@ export class TestRunner {
     this.registry.setLLMAdapter(this.llmAdapter);
     
     // Create the scenario parser
-    this.parser = new ScenarioParser();
+    this.parser = new ScenarioParser({ testTypes: this.registry.getTestTypes() });
     
     // Register the LLM adapter
     this.registry.registerAdapter('llm', this.llmAdapter);
@@ -144,7 +212,18 @@ export class TestRunner {
       });
     }
     
-    this.executor = new TestExecutor({}, this.registry);
+    this.executor = new TestExecutor({
+      execution: {
+        tags: this.config.tags,
+        softAssertions: this.config.softAssertions,
+        stepTimeout: this.config.stepTimeout,
+        teardownTimeout: this.config.teardownTimeout,
+        workers: this.config.workers,
+        lockfile: this.config.lockfile,
+        updateLock: this.config.updateLock,
+        locked: this.config.locked
+      }
+    }, this.registry);
     
     // Make sure we register the adapters with the executor as well
     this.executor.registerAdapter('llm', this.llmAdapter);
@@ -154,6 +233,21 @@ export class TestRunner {
         this.executor.registerAdapter(name, adapter);
       });
     }
+    
+    [...(this.config.addons || []), ...(this.config.hooks || [])].forEach(hooks => {
+      this.executor.addHooks(hooks);
+    });
+    
+    this.config.reporters?.forEach(reporter => {
+      this.executor.addReporter(reporter);
+    });
+  }
+  
+  /**
+   * Events emitted as tests run
+   */
+  get events(): ExecutionEvents {
+    return this.executor.events;
   }
   
   /**
@@ -237,16 +331,16 @@ export class TestRunner {
   /**
    * Run a test from a file path
    * @param filePath Path to the test file
-   * @returns Test results
+   * @returns Test results, one per scenario in the file
    */
-  async runTestFile(filePath: string): Promise<TestResult> {
+  async runTestFile(filePath: string): Promise<TestResults> {
     if (this.config.verbose) {
       console.log(`Running test file: ${filePath}`);
     }
     
     try {
       const content = await fs.promises.readFile(filePath, 'utf-8');
-      return this.runTest(content);
+      return this.runTest(content, filePath);
     } catch (error) {
       console.error(`Failed to run test file ${filePath}:`, error);
       throw error;
@@ -256,57 +350,73 @@ export class TestRunner {
   /**
    * Run a test from a string
    * @param test Test content as a string
-   * @returns Test results
+   * @param filePath Path the test content was read from (if any)
+   * @returns Test results, one per scenario in the test
    */
-  async runTest(test: string): Promise<TestResult> {
+  async runTest(test: string, filePath?: string): Promise<TestResults> {
     if (this.config.verbose) {
       console.log('Running test...');
     }
     
     try {
-      // Create a timeout for the test
-      let timeoutId: NodeJS.Timeout | null = null;
-      
-      // Parse the test string into a scenario
-      const scenario = this.parser.parse(test);
+      const startTime = Date.now();
       
-      const results = await Promise.race([
-        this.executor.executeScenario(scenario),
-        new Promise<TestResult>((_, reject) => {
-          timeoutId = setTimeout(() => {
-            reject(new Error(`Test execution timed out after ${this.config.timeout}ms`));
-          }, this.config.timeout);
-        })
-      ]);
+      // Parse the test string into a feature with one or more scenarios
+      const feature = this.parser.parseFeature(test, filePath);
       
-      // Clear the timeout
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
+      await this.executor.startRun(filePath ? [filePath] : []);
+      const results = await this.executor.executeScenarios(
+        feature.scenarios,
+        (executor, scenario) => this.runScenarioWithTimeout(scenario, executor)
+      );
+      const testResults = this.summarizeResults(results, Date.now() - startTime);
       
       if (this.config.verbose) {
-        this.logTestResults(results);
+        this.logTestResults(testResults);
       }
       
-      return results;
+      await this.executor.finishRun(testResults);
+      
+      return testResults;
     } catch (error) {
       console.error('Test execution failed:', error);
       throw error;
     }
   }
   
+  /**
+   * Execute a single scenario, cancelling it if it exceeds the configured
+   * timeout. The running step is aborted and the teardown still runs, within
+   * its own time limit.
+   * @param scenario The scenario to execute
+   * @param executor The executor of the worker running the scenario
+   */
+  private async runScenarioWithTimeout(scenario: Scenario, executor: TestExecutor = this.executor): Promise<TestResult> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort(new Error(`Test execution timed out after ${this.config.timeout}ms`));
+    }, this.config.timeout);
+    
+    try {
+      return await executor.executeScenario(scenario, controller.signal);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+  
   /**
    * Run all tests in a directory
    * @param directory Directory containing test files
    * @param pattern File pattern to match (default: '**\*.md')
    * @returns Test results by file path
    */
-  async runTestDirectory(directory: string, pattern: string = '**/*.md'): Promise<Record<string, TestResult>> {
+  async runTestDirectory(directory: string, pattern: string = '**/*.md'): Promise<Record<string, TestResults>> {
     if (this.config.verbose) {
       console.log(`Running tests in directory: ${directory}`);
     }
     
     try {
+      const startTime = Date.now();
       const testFiles = await this.discoverTestFiles(directory, pattern);
       
       if (testFiles.length === 0) {
@@ -318,7 +428,9 @@ export class TestRunner {
         console.log(`Found ${testFiles.length} test files`);
       }
       
-      const results: Record<string, TestResult> = {};
+      // Parse every file first, so the scenarios of all files can share the workers
+      const features = new Map<string, Feature>();
+      const failures = new Map<string, TestResults>();
       
       for (const file of testFiles) {
         try {
@@ -327,14 +439,50 @@ export class TestRunner {
           }
           
           const content = file.content || await fs.promises.readFile(file.path, 'utf-8');
-          results[file.path] = await this.runTest(content);
+          features.set(file.path, this.parser.parseFeature(content, file.path));
         } catch (error) {
           console.error(`Failed to run test file ${file.path}:`, error);
-          results[file.path] = {
-            passed: false,
-            steps: [],
-            error: error instanceof Error ? error.message : String(error)
-          };
+          failures.set(file.path, {
+            total: 1,
+            passed: 0,
+            failed: 1,
+            results: [{
+              filePath: file.path,
+              passed: false,
+              steps: [],
+              error: error instanceof Error ? error.message : String(error)
+            }],
+            duration: 0
+          });
+        }
+      }
+      
+      await this.executor.startRun(testFiles.map(file => file.path));
+      const scenarioResults = await this.executor.executeScenarios(
+        Array.from(features.values()).flatMap(feature => feature.scenarios),
+        (executor, scenario) => this.runScenarioWithTimeout(scenario, executor)
+      );
+      
+      // Hand the results back to their files, in the order the files were found
+      const results: Record<string, TestResults> = {};
+      let next = 0;
+      
+      for (const file of testFiles) {
+        const feature = features.get(file.path);
+        
+        if (!feature) {
+          results[file.path] = failures.get(file.path)!;
+          continue;
+        }
+        
+        const fileResults = scenarioResults.slice(next, next += feature.scenarios.length);
+        results[file.path] = this.summarizeResults(
+          fileResults,
+          fileResults.reduce((sum, result) => sum + (result.duration || 0), 0)
+        );
+        
+        if (this.config.verbose) {
+          this.logTestResults(results[file.path]);
         }
       }
       
@@ -342,6 +490,11 @@ export class TestRunner {
         this.logTestResultsSummary(results);
       }
       
+      await this.executor.finishRun(this.summarizeResults(
+        Object.values(results).flatMap(fileResults => fileResults.results),
+        Date.now() - startTime
+      ));
+      
       return results;
     } catch (error) {
       console.error(`Failed to run tests in directory ${directory}:`, error);
@@ -349,6 +502,48 @@ export class TestRunner {
     }
   }
   
+  /**
+   * Work out how the tests in a directory would run, without running them
+   * @param directory Directory containing test files
+   * @param pattern File pattern to match (default: '**\*.md')
+   * @returns One plan per scenario, in the order the files were found
+   * @throws If a test file can't be parsed
+   */
+  async planTestDirectory(directory: string, pattern: string = '**/*.md'): Promise<ScenarioPlan[]> {
+    const testFiles = await this.discoverTestFiles(directory, pattern);
+    const plans: ScenarioPlan[] = [];
+    
+    for (const file of testFiles) {
+      const content = file.content || await fs.promises.readFile(file.path, 'utf-8');
+      const feature = this.parser.parseFeature(content, file.path);
+      
+      for (const scenario of feature.scenarios) {
+        plans.push(await this.executor.plan(scenario));
+      }
+    }
+    
+    return plans;
+  }
+  
+  /**
+   * Count the passed, failed and skipped scenarios of a file or run
+   * @param results The scenario results
+   * @param duration How long the scenarios took in milliseconds
+   */
+  private summarizeResults(results: TestResult[], duration: number): TestResults {
+    const passed = results.filter(result => result.passed).length;
+    const skipped = results.filter(result => result.skipped).length;
+    
+    return {
+      total: results.length,
+      passed,
+      failed: results.length - passed - skipped,
+      skipped,
+      results,
+      duration
+    };
+  }
+  
   /**
    * Discover test files in a directory
    * @param directory Directory to search
@@ -367,7 +562,7 @@ export class TestRunner {
         
         if (entry.isDirectory()) {
           await scanDirectory(fullPath);
-        } else if (entry.isFile() && entry.name.endsWith('.md')) {
+        } else if (entry.isFile() && (entry.name.endsWith('.md') || entry.name.endsWith('.feature'))) {
           files.push({ path: fullPath });
         }
       }
@@ -381,25 +576,56 @@ export class TestRunner {
    * Log test results
    * @param results Test results
    */
-  private logTestResults(results: TestResult): void {
+  private logTestResults(results: TestResults): void {
     console.log('\nTest Results:');
-    console.log(`Passed: ${results.passed}`);
-    console.log(`Total steps: ${results.steps.length}`);
-    console.log(`Passed steps: ${results.steps.filter(s => s.status === 'passed').length}`);
-    console.log(`Failed steps: ${results.steps.filter(s => s.status === 'failed').length}`);
-    console.log(`Skipped steps: ${results.steps.filter(s => s.status === 'skipped').length}`);
+    console.log(`Scenarios: ${results.total} (${results.passed} passed, ${results.failed} failed, ${results.skipped || 0} skipped)`);
     
-    if (results.error) {
-      console.log(`Error: ${results.error}`);
-    }
-    
-    console.log('\nDetailed Results:');
-    results.steps.forEach((step, index) => {
-      console.log(`Step ${index + 1}: ${step.description}`);
-      console.log(`  Status: ${step.status}`);
-      if (step.error) {
-        console.log(`  Error: ${step.error}`);
+    results.results.forEach(result => {
+      console.log(`\nScenario: ${result.scenarioTitle || 'Untitled'}`);
+      
+      if (result.skipped) {
+        console.log(`Skipped: ${result.skipReason}`);
+        return;
+      }
+      
+      console.log(`Passed: ${result.passed}`);
+      console.log(`Total steps: ${result.steps.length}`);
+      console.log(`Passed steps: ${result.steps.filter(s => s.status === 'passed').length}`);
+      console.log(`Failed steps: ${result.steps.filter(s => s.status === 'failed').length}`);
+      console.log(`Skipped steps: ${result.steps.filter(s => s.status === 'skipped').length}`);
+      
+      if (result.error) {
+        console.log(`Error: ${result.error}`);
       }
+      
+      result.teardownErrors?.forEach(teardownError => {
+        console.log(`Teardown error: ${teardownError}`);
+      });
+      
+      if (!result.passed && result.variables && Object.keys(result.variables).length > 0) {
+        console.log('Variables:');
+        Object.entries(result.variables).forEach(([name, value]) => {
+          console.log(`  ${name} = ${JSON.stringify(value)}`);
+        });
+      }
+      
+      console.log('\nDetailed Results:');
+      result.steps.forEach((step, index) => {
+        console.log(`Step ${index + 1}: ${step.phase && step.phase !== 'scenario' ? `[${step.phase}] ` : ''}${step.description}`);
+        console.log(`  Status: ${step.status}`);
+        if (step.attempts && step.attempts > 1) {
+          console.log(`  Attempts: ${step.attempts}`);
+        }
+        if (step.error) {
+          console.log(`  Error: ${step.error}`);
+          if (step.location) {
+            console.log(`  At: ${formatLocation(step.location)}`);
+          }
+          if (step.includedFrom) {
+            console.log(`  Included from: ${formatLocation(step.includedFrom)}`);
+          }
+        }
+      });
     });
   }
   
@@ -407,24 +633,30 @@ export class TestRunner {
    * Log test results summary
    * @param results Test results by file path
    */
-  private logTestResultsSummary(results: Record<string, TestResult>): void {
+  private logTestResultsSummary(results: Record<string, TestResults>): void {
     console.log('\nTest Results Summary:');
     
-    const totalTests = Object.keys(results).length;
-    const passedTests = Object.values(results).filter(r => r.passed).length;
-    const failedTests = totalTests - passedTests;
+    const fileResults = Object.values(results);
+    const totalTests = fileResults.reduce((sum, r) => sum + r.total, 0);
+    const passedTests = fileResults.reduce((sum, r) => sum + r.passed, 0);
+    const skippedTests = fileResults.reduce((sum, r) => sum + (r.skipped || 0), 0);
+    const failedTests = totalTests - passedTests - skippedTests;
     
     console.log(`Total tests: ${totalTests}`);
     console.log(`Passed tests: ${passedTests}`);
     console.log(`Failed tests: ${failedTests}`);
+    console.log(`Skipped tests: ${skippedTests}`);
     
     if (failedTests > 0) {
       console.log('\nFailed Tests:');
-      Object.entries(results)
-        .filter(([_, result]) => !result.passed)
-        .forEach(([path, result]) => {
-          console.log(`- ${path}: ${result.error || 'Failed steps'}`);
-        });
+      Object.entries(results).forEach(([path, fileResult]) => {
+        fileResult.results
+          .filter(result => !result.passed && !result.skipped)
+          .forEach(result => {
+            const name = result.scenarioTitle ? `${path} > ${result.scenarioTitle}` : path;
+            console.log(`- ${name}: ${result.error || result.teardownErrors?.[0] || 'Failed steps'}`);
+          });
+      });
     }
   }
   
@@ -0,0 +1,99 @@
+import { TestTypeDefinition } from '../types/addon';
+import { TestType } from '../types/scenario';
+
+/**
+ * Test types understood without any addons
+ */
+const BUILT_IN_TEST_TYPES: TestTypeDefinition[] = [
+  {
+    name: 'ui',
+    aliases: ['browser'],
+    description: 'Browser tests driven through the page',
+    adapters: ['browser']
+  },
+  {
+    name: 'api',
+    description: 'HTTP API tests',
+    adapters: ['api']
+  },
+  {
+    name: 'database',
+    aliases: ['db'],
+    description: 'Database query tests',
+    adapters: ['database']
+  },
+  {
+    name: 'generic',
+    description: 'Steps interpreted by the LLM',
+    adapters: ['generic', 'llm']
+  },
+  {
+    name: 'typedapi',
+    description: 'TypedAPI contract tests',
+    adapters: ['generic', 'llm']
+  },
+  {
+    name: 'mixed',
+    description: 'Each step runs against the adapter it names or the LLM picks for it',
+    adapters: ['generic', 'llm']
+  }
+];
+
+/**
+ * The test types scenarios can declare with `Type:`, and the adapters that
+ * run each of them
+ */
+export class TestTypeRegistry {
+  private definitions: Map<string, TestTypeDefinition> = new Map();
+  
+  constructor() {
+    BUILT_IN_TEST_TYPES.forEach(definition => this.register(definition));
+  }
+  
+  /**
+   * Register a test type, replacing any type with the same name
+   */
+  register(definition: TestTypeDefinition): void {
+    this.definitions.set(definition.name.toLowerCase(), definition);
+  }
+  
+  /**
+   * Find a test type by its name or one of its aliases
+   * @param name The name as written, in any case
+   */
+  resolve(name: string): TestTypeDefinition | undefined {
+    const key = name.trim().toLowerCase();
+    
+    return this.definitions.get(key) || Array.from(this.definitions.values())
+      .find(definition => (definition.aliases || []).some(alias => alias.toLowerCase() === key));
+  }
+  
+  /**
+   * Resolve the canonical name of a test type
+   * @param name The name as written, in any case
+   * @throws If no test type has the name
+   */
+  resolveName(name: string): TestType {
+    const definition = this.resolve(name);
+    
+    if (!definition) {
+      throw new Error(`Unknown test type "${name}", expected one of ${this.getNames().join(', ')}`);
+    }
+    
+    return definition.name.toLowerCase();
+  }
+  
+  /**
+   * Get all registered test types
+   */
+  getDefinitions(): TestTypeDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+  
+  /**
+   * Get the names of all registered test types
+   */
+  getNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+}
@@ -0,0 +1,62 @@
+import { VariableStore, parseCapture } from './VariableStore';
+
+describe('VariableStore', () => {
+  describe('parseCapture', () => {
+    it('splits a save clause off the instruction', () => {
+      expect(parseCapture('I send a POST request to "/users" and save response body.id as userId')).toEqual({
+        instruction: 'I send a POST request to "/users"',
+        capture: { source: 'response', path: ['body', 'id'], name: 'userId' }
+      });
+    });
+
+    it('reads array indexes and lower-cases response header names', () => {
+      expect(parseCapture('save the response body.items[0].id as itemId').capture?.path).toEqual(['body', 'items', '0', 'id']);
+      expect(parseCapture('save response headers.Location as location').capture?.path).toEqual(['headers', 'location']);
+    });
+
+    it('reads `first row` as the first row of the query result', () => {
+      expect(parseCapture('save first row.email as email').capture).toEqual({
+        source: 'query',
+        path: ['rows', '0', 'email'],
+        name: 'email'
+      });
+    });
+
+    it('leaves an instruction without a save clause as it is', () => {
+      expect(parseCapture('I save the form')).toEqual({ instruction: 'I save the form' });
+    });
+  });
+
+  describe('interpolate', () => {
+    const variables = new VariableStore({ API_TOKEN: 'secret' });
+    variables.set('userId', 42);
+    variables.set('user', { name: 'Ada', roles: ['admin'] });
+
+    it('replaces variables, paths into them and environment variables', () => {
+      expect(variables.interpolate('GET /users/${userId}?name=${user.name}&role=${ user.roles[0] }'))
+        .toBe('GET /users/42?name=Ada&role=admin');
+      expect(variables.interpolate('Bearer ${env.API_TOKEN}')).toBe('Bearer secret');
+    });
+
+    it('throws on a variable that is not set', () => {
+      expect(() => variables.interpolate('/users/${orderId}')).toThrow('Variable orderId is not set');
+      expect(() => variables.interpolate('${env.MISSING}')).toThrow('Environment variable MISSING is not set');
+    });
+
+    it('keeps the type of a value that is only a reference when interpolating deeply', () => {
+      expect(variables.interpolateDeep({ id: '${userId}', path: '/users/${userId}', tags: ['${user.name}'] }))
+        .toEqual({ id: 42, path: '/users/42', tags: ['Ada'] });
+    });
+  });
+
+  it('writes the values of references back as the references', () => {
+    const variables = new VariableStore({});
+    variables.set('userId', 42);
+    variables.set('orgId', 'org-4');
+
+    expect(variables.parameterize(
+      { method: 'GET', url: '/orgs/org-4/users/42', body: { id: 42 } },
+      'I send a GET request to "/orgs/${orgId}/users/${userId}"'
+    )).toEqual({ method: 'GET', url: '/orgs/${orgId}/users/${userId}', body: { id: '${userId}' } });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Where a captured value is read from
+ */
+export type CaptureSource = 'response' | 'query';
+
+/**
+ * A `save <source> <path> as <name>` clause of a step
+ */
+export interface VariableCapture {
+  source: CaptureSource;
+  // Path into the source, e.g. ['body', 'id'] or ['rows', '0', 'name']
+  path: string[];
+  name: string;
+}
+
+const CAPTURE_PATTERN = /(?:^|,?\s+and\s+)save\s+(?:the\s+)?(response|query result|first row)\b\s*(.*?)\s+as\s+([A-Za-z_]\w*)\s*$/i;
+
+const VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Split a `save ... as name` clause off a step instruction, e.g.
+ * `I send a POST request to "/users" and save response body.id as userId`
+ * @param instruction The step instruction
+ * @returns The instruction without the clause, and the capture if there was one
+ */
+export function parseCapture(instruction: string): { instruction: string; capture?: VariableCapture } {
+  const captureMatch = instruction.match(CAPTURE_PATTERN);
+
+  if (!captureMatch) {
+    return { instruction };
+  }
+
+  const [clause, source, path, name] = captureMatch;
+  const segments = splitPath(path);
+
+  // Response header names are lower case, e.g. `response headers.Location`
+  if (/^headers?$/i.test(segments[0] || '') && segments.length > 1) {
+    segments.splice(0, 2, 'headers', segments[1].toLowerCase());
+  }
+
+  // `first row.id` is short for `query result rows[0].id`
+  const capture: VariableCapture = source.toLowerCase() === 'response'
+    ? { source: 'response', path: segments, name }
+    : { source: 'query', path: source.toLowerCase() === 'first row' ? ['rows', '0', ...segments] : segments, name };
+
+  return {
+    instruction: instruction.substring(0, instruction.length - clause.length).trim(),
+    capture
+  };
+}
+
+/**
+ * Read a value at a path, e.g. ['body', 'items', '0', 'id']
+ * @param value The value to read from
+ * @param path The property names and array indexes to follow
+ */
+export function readPath(value: any, path: string[]): any {
+  return path.reduce((current, segment) => (current == null ? undefined : current[segment]), value);
+}
+
+function splitPath(path: string): string[] {
+  return path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .map(segment => segment.trim())
+    .filter(segment => segment.length > 0);
+}
+
+/**
+ * Values captured by the steps of a scenario, interpolated into later steps
+ * as `${name}`. `${env.NAME}` reads an environment variable.
+ */
+export class VariableStore {
+  private values: Map<string, any> = new Map();
+
+  constructor(private env: Record<string, string | undefined> = process.env) {}
+
+  set(name: string, value: any): void {
+    this.values.set(name, value);
+  }
+
+  get(name: string): any {
+    return this.values.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.values.has(name);
+  }
+
+  /**
+   * Get every captured value, e.g. to show alongside a failure
+   */
+  toObject(): Record<string, any> {
+    return Object.fromEntries(this.values);
+  }
+
+  /**
+   * Replace `${name}` and `${env.NAME}` references in a string
+   * @param text The text to interpolate
+   * @throws If a referenced variable is not set
+   */
+  interpolate(text: string): string {
+    return text.replace(VARIABLE_PATTERN, (match, reference) => {
+      const value = this.resolve(reference.trim());
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+  }
+
+  /**
+   * Interpolate every string in a value. A string that is only a reference,
+   * e.g. `- id: ${userId}`, is replaced by the variable's value as captured,
+   * keeping its type.
+   * @param value The value to interpolate
+   */
+  interpolateDeep(value: any): any {
+    if (typeof value === 'string') {
+      const referenceMatch = value.match(/^\$\{([^}]+)\}$/);
+      return referenceMatch ? this.resolve(referenceMatch[1].trim()) : this.interpolate(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.interpolateDeep(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.interpolateDeep(item)])
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Write the values of the references in a text back as references in a
+   * value, the reverse of interpolating. Used to keep what a step was read as
+   * independent of the values it ran with, e.g. `GET /users/${userId}`.
+   * @param value The value to parameterize, e.g. the API request of a step
+   * @param text The text with the references, e.g. the step as written
+   */
+  parameterize(value: any, text: string): any {
+    const references = Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1].trim())))
+      .map(reference => {
+        const resolved = this.resolve(reference);
+        return { reference: `\${${reference}}`, resolved, text: typeof resolved === 'string' ? resolved : JSON.stringify(resolved) };
+      })
+      .filter(reference => reference.text)
+      // Replace longer values first, so a value inside another isn't replaced on its own
+      .sort((a, b) => b.text.length - a.text.length);
+
+    const replace = (item: any): any => {
+      const exact = references.find(reference => reference.resolved === item);
+      if (exact) {
+        return exact.reference;
+      }
+
+      if (typeof item === 'string') {
+        return references.reduce((result, reference) => result.split(reference.text).join(reference.reference), item);
+      }
+
+      if (Array.isArray(item)) {
+        return item.map(replace);
+      }
+
+      if (item && typeof item === 'object') {
+        return Object.fromEntries(Object.entries(item).map(([key, entry]) => [key, replace(entry)]));
+      }
+
+      return item;
+    };
+
+    return references.length > 0 ? replace(value) : value;
+  }
+
+  private resolve(reference: string): any {
+    if (reference.startsWith('env.')) {
+      const name = reference.substring(4);
+      if (this.env[name] === undefined) {
+        throw new Error(`Environment variable ${name} is not set`);
+      }
+      return this.env[name];
+    }
+
+    const [name, ...path] = splitPath(reference);
+    if (!this.values.has(name)) {
+      throw new Error(`Variable ${name} is not set`);
+    }
+
+    return readPath(this.values.get(name), path);
+  }
+}
@@ -1,19 +1,28 @@
 // Core exports
 export { TestExecutor } from './core/TestExecutor';
 export { ScenarioParser } from './core/ScenarioParser';
+export { formatScenarioFile, serializeFeature, serializeScenario } from './core/ScenarioSerializer';
 export { CapabilityRegistry } from './core/CapabilityRegistry';
 export { TestRunner, createTestRunner } from './core/TestRunner';
+export { ExecutionEvents } from './core/ExecutionEvents';
+export { VariableStore } from './core/VariableStore';
+export { InterpretationLock, DEFAULT_LOCKFILE } from './core/InterpretationLock';
+export type { LockedStep } from './core/InterpretationLock';
 
 // Adapters
 export { BaseAdapter } from './adapters/BaseAdapter';
 export { BrowserAdapter } from './adapters/BrowserAdapter';
-export { LLMAdapter } from './adapters/LLMAdapter';
+export { LLMAdapter, isLLMAdapter } from './adapters/LLMAdapter';
 export { AnthropicAdapter } from './adapters/AnthropicAdapter';
 export { OpenAIAdapter } from './adapters/OpenAIAdapter';
 export { OllamaAdapter } from './adapters/OllamaAdapter';
 export { APIAdapter } from './adapters/APIAdapter';
 export { DatabaseAdapter } from './adapters/DatabaseAdapter';
 
+// Reporters
+export { ConsoleReporter, JsonReporter, createReporter } from './reporters';
+export type { JsonReporterOptions } from './reporters/JsonReporter';
+
 // Integrations
 export { CraftACoderIntegration } from './integrations/CraftACoderIntegration';
 
@@ -22,4 +31,6 @@ export * from './types/config';
 export * from './types/scenario';
 export * from './types/actions';
 export * from './types/results';
-export * from './types/addon';
\ No newline at end of file
+export * from './types/addon';
+export * from './types/reporter';
+export * from './types/world';
\ No newline at end of file
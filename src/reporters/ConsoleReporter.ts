@@ -0,0 +1,41 @@
+import chalk from 'chalk';
+import { Reporter, RunEndEvent, ScenarioEndEvent, ScenarioStartEvent, StepEndEvent } from '../types/reporter';
+import { formatLocation } from '../utils/location';
+
+/**
+ * Prints each scenario and step as it finishes
+ */
+export class ConsoleReporter implements Reporter {
+  onScenarioStart({ scenario }: ScenarioStartEvent): void {
+    console.log(chalk.bold(`\n▶ ${scenario.title}`));
+  }
+  
+  onStepEnd({ phase, result }: StepEndEvent): void {
+    const status = result.skipped ? chalk.yellow('⚠') : result.success ? chalk.green('✓') : chalk.red('✗');
+    const label = phase !== 'scenario' ? chalk.dim(`[${phase}] `) : '';
+    const resolution = result.resolution?.capability || result.resolution?.adapter;
+    const details = result.skipped ? [] : [`${result.duration}ms`, ...(resolution ? [`via ${resolution}`] : [])];
+    
+    console.log(`  ${status} ${label}${result.step}${details.length > 0 ? chalk.dim(` (${details.join(', ')})`) : ''}`);
+    
+    if (result.error) {
+      console.log(`    ${chalk.red(result.error)}`);
+      if (result.location) {
+        console.log(chalk.dim(`    at ${formatLocation(result.location)}`));
+      }
+    }
+  }
+  
+  onScenarioEnd({ scenario, result }: ScenarioEndEvent): void {
+    if (result.skipped) {
+      console.log(`${chalk.yellow('SKIP')} ${scenario.title}${result.skipReason ? chalk.dim(` (${result.skipReason})`) : ''}`);
+      return;
+    }
+    
+    console.log(`${result.passed ? chalk.green('PASS') : chalk.red('FAIL')} ${scenario.title}`);
+  }
+  
+  onRunEnd({ results }: RunEndEvent): void {
+    console.log(chalk.bold(`\n${results.passed} passed, ${results.failed} failed, ${results.skipped || 0} skipped (${results.duration}ms)`));
+  }
+}
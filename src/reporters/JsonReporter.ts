@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExecutionEventMap, Reporter, RunEndEvent, RunStartEvent, ScenarioEndEvent, ScenarioStartEvent, StepEndEvent, StepStartEvent } from '../types/reporter';
+import { Scenario } from '../types/scenario';
+
+export interface JsonReporterOptions {
+  // File to write to, replaced at the start of each run. Defaults to stdout.
+  outputFile?: string;
+}
+
+/**
+ * Writes each event as a line of JSON, for tools following a run
+ */
+export class JsonReporter implements Reporter {
+  private outputFile?: string;
+  
+  constructor(options: JsonReporterOptions = {}) {
+    this.outputFile = options.outputFile && path.resolve(options.outputFile);
+  }
+  
+  onRunStart({ files }: RunStartEvent): void {
+    if (this.outputFile) {
+      fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+      fs.writeFileSync(this.outputFile, '', 'utf-8');
+    }
+    
+    this.write('runStart', { files });
+  }
+  
+  onScenarioStart({ scenario }: ScenarioStartEvent): void {
+    this.write('scenarioStart', describeScenario(scenario));
+  }
+  
+  onStepStart({ scenario, step, phase }: StepStartEvent): void {
+    this.write('stepStart', { ...describeScenario(scenario), phase, type: step.type, instruction: step.instruction, location: step.location });
+  }
+  
+  onStepEnd({ scenario, phase, result }: StepEndEvent): void {
+    // Screenshots would bloat every line
+    const { screenshot, ...stepResult } = result;
+    this.write('stepEnd', { ...describeScenario(scenario), phase, result: stepResult });
+  }
+  
+  onScenarioEnd({ scenario, result }: ScenarioEndEvent): void {
+    this.write('scenarioEnd', {
+      ...describeScenario(scenario),
+      passed: result.passed,
+      skipped: result.skipped,
+      duration: result.duration,
+      error: result.error,
+      teardownErrors: result.teardownErrors
+    });
+  }
+  
+  onRunEnd({ results }: RunEndEvent): void {
+    const { results: _, ...summary } = results;
+    this.write('runEnd', summary);
+  }
+  
+  private write(event: keyof ExecutionEventMap, data: Record<string, any>): void {
+    const line = `${JSON.stringify({ event, time: new Date().toISOString(), ...data })}\n`;
+    
+    if (this.outputFile) {
+      fs.appendFileSync(this.outputFile, line, 'utf-8');
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
+
+function describeScenario(scenario: Scenario): Record<string, any> {
+  return {
+    scenario: scenario.title,
+    filePath: scenario.filePath,
+    example: scenario.example?.values
+  };
+}
@@ -0,0 +1,41 @@
+import * as path from 'path';
+import { Reporter, ReporterConfig } from '../types/reporter';
+import { ConsoleReporter } from './ConsoleReporter';
+import { JsonReporter } from './JsonReporter';
+
+export { ConsoleReporter } from './ConsoleReporter';
+export { JsonReporter } from './JsonReporter';
+
+const BUILT_IN_REPORTERS: Record<string, new (options?: any) => Reporter> = {
+  console: ConsoleReporter,
+  json: JsonReporter
+};
+
+/**
+ * Create a reporter from the configuration: a built-in reporter by name, or
+ * the default export of a module by path or package name. A module may
+ * export a reporter class, which is constructed with the options, or a
+ * reporter object.
+ * @throws If the reporter is unknown or can't be loaded
+ */
+export function createReporter(config: ReporterConfig): Reporter {
+  const { name, options = {} } = typeof config === 'string' ? { name: config } : config;
+  const BuiltIn = BUILT_IN_REPORTERS[name];
+  
+  if (BuiltIn) {
+    return new BuiltIn(options);
+  }
+  
+  let loaded: any;
+  try {
+    // Relative paths are relative to the working directory, anything else is a package
+    loaded = require(name.startsWith('.') ? path.resolve(name) : name);
+  } catch (error) {
+    // Only the first line, without node's require stack
+    const reason = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+    throw new Error(`Unknown reporter "${name}", expected one of ${Object.keys(BUILT_IN_REPORTERS).join(', ')} or a module that loads: ${reason}`);
+  }
+  
+  const exported = loaded?.default ?? loaded;
+  return typeof exported === 'function' ? new exported(options) : exported;
+}
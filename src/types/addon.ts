@@ -1,5 +1,8 @@
 import { BaseAdapter } from '../adapters/BaseAdapter';
 import { TestExecutor } from '../core/TestExecutor';
+import { Scenario, ScenarioStep } from './scenario';
+import { StepResult, TestResult, TestResults } from './results';
+import { ScenarioWorld } from './world';
 
 /**
  * Parameter for a capability
@@ -51,7 +54,8 @@ export interface AddonCapability {
   examples: string[];
   
   /**
-   * The actual implementation function
+   * The actual implementation function, called with the resolved parameters
+   * followed by a CapabilityContext
    */
   handler: (...args: any[]) => Promise<any>;
   
@@ -61,6 +65,89 @@ export interface AddonCapability {
   parameters?: CapabilityParameter[];
 }
 
+/**
+ * Passed to a capability handler after its parameters
+ */
+export interface CapabilityContext {
+  /**
+   * Aborted when the step times out or the scenario is cancelled. Handlers
+   * doing slow work should pass it on, e.g. to fetch, or stop when it fires.
+   */
+  signal?: AbortSignal;
+  
+  /**
+   * What the scenario's steps have done so far: the last API response, query
+   * result and screen state, variables and artifacts. A handler's return value
+   * is kept in `artifacts` under the capability's name.
+   */
+  world?: ScenarioWorld;
+}
+
+/**
+ * Functions called as tests run, e.g. to refresh an auth token, reset a
+ * database or log progress. Hooks may be async and are awaited. A failing
+ * step or scenario hook fails its step or scenario; a failing `beforeAll` or
+ * `afterAll` hook fails the run.
+ */
+export interface LifecycleHooks {
+  /**
+   * Called once before the first scenario of a run
+   */
+  beforeAll?(): Promise<void> | void;
+  
+  /**
+   * Called before a scenario's first step. If it fails, the scenario's steps
+   * are skipped and its teardown still runs.
+   */
+  beforeScenario?(scenario: Scenario): Promise<void> | void;
+  
+  /**
+   * Called before each step that runs, including setup and teardown steps
+   */
+  beforeStep?(scenario: Scenario, step: ScenarioStep): Promise<void> | void;
+  
+  /**
+   * Called after each step that ran, with its result
+   */
+  afterStep?(scenario: Scenario, step: ScenarioStep, result: StepResult): Promise<void> | void;
+  
+  /**
+   * Called after a scenario's teardown, with its result
+   */
+  afterScenario?(scenario: Scenario, result: TestResult): Promise<void> | void;
+  
+  /**
+   * Called once after the last scenario of a run, with the results of the run
+   */
+  afterAll?(results: TestResults): Promise<void> | void;
+}
+
+/**
+ * A test type that scenarios can declare with `Type:` in their context
+ */
+export interface TestTypeDefinition {
+  /**
+   * Name of the test type, matched case-insensitively
+   */
+  name: string;
+  
+  /**
+   * Other names accepted for the test type, e.g. "browser" for "ui"
+   */
+  aliases?: string[];
+  
+  /**
+   * Description of the test type
+   */
+  description?: string;
+  
+  /**
+   * Names of the registered adapters that run steps of this type, in order
+   * of preference. The first one registered becomes the primary adapter.
+   */
+  adapters: string[];
+}
+
 /**
  * Constructor type for adapters
  */
@@ -167,7 +254,7 @@ export interface CapabilityRegistry {
   /**
    * Find the most appropriate capability for an action description
    */
-  findCapabilityForAction(description: string): Promise<{
+  findCapabilityForAction(description: string, signal?: AbortSignal): Promise<{
     capability: AddonCapability;
     parameters: any[];
     confidence: number;
@@ -177,12 +264,18 @@ export interface CapabilityRegistry {
    * Provide feedback on a capability resolution
    */
   provideFeedback(feedback: CapabilityFeedback): Promise<void>;
+  
+  /**
+   * Register a test type, with the adapters that run it
+   */
+  registerTestType(definition: TestTypeDefinition): void;
 }
 
 /**
- * Interface for addons to implement
+ * Interface for addons to implement. Addons can also implement any of the
+ * lifecycle hooks.
  */
-export interface Addon {
+export interface Addon extends LifecycleHooks {
   /**
    * Addon name
    */
@@ -1,3 +1,5 @@
+import { ReporterConfig } from './reporter';
+
 export interface BrowserConfig {
   headless?: boolean;
   slowMo?: number;
@@ -41,6 +43,35 @@ export interface IntegrationsConfig {
   craftacoder?: CraftACoderIntegrationConfig;
 }
 
+export interface ReportingConfig {
+  // Reporters receiving events as tests run, e.g. "console" or "./my-reporter.js"
+  reporters?: ReporterConfig[];
+}
+
+export interface ExecutionConfig {
+  // Tag expression selecting the scenarios to run, e.g. "smoke and not slow"
+  tags?: string;
+  // Record failing `then` steps and carry on, instead of stopping at the first
+  softAssertions?: boolean;
+  // Times a failing step is tried again, overridden by a scenario's `Retries`
+  retries?: number;
+  // Wait before the first retry in milliseconds, doubled for each retry after it
+  retryDelay?: number;
+  // Longest a single step may take in milliseconds, overridden by a scenario's `StepTimeout`
+  stepTimeout?: number;
+  // Time a scenario's teardown steps and after-hooks get in milliseconds, counted
+  // from when the scenario is cancelled or its teardown starts, 30000 by default
+  teardownTimeout?: number;
+  // Scenarios run at once, each worker with its own adapter instances
+  workers?: number;
+  // File step interpretations are recorded in and replayed from, craft-a-tester.lock.json by default
+  lockfile?: string;
+  // Record how each passing step was interpreted in the lockfile
+  updateLock?: boolean;
+  // Replay interpretations from the lockfile instead of asking the LLM, failing steps without one
+  locked?: boolean;
+}
+
 export interface TestExecutorConfig {
   browser?: BrowserConfig;
   llm?: LLMConfig;
@@ -48,6 +79,8 @@ export interface TestExecutorConfig {
   database?: DatabaseConfig;
   logging?: LoggingConfig;
   integrations?: IntegrationsConfig;
+  execution?: ExecutionConfig;
+  reporting?: ReportingConfig;
 }
 
 // Keep for backward compatibility
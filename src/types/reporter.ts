@@ -0,0 +1,69 @@
+import { Scenario, ScenarioStep } from './scenario';
+import { StepPhase, StepResult, TestResult, TestResults } from './results';
+
+export interface RunStartEvent {
+  // Scenario files of the run
+  files: string[];
+}
+
+export interface ScenarioStartEvent {
+  scenario: Scenario;
+}
+
+export interface StepStartEvent {
+  scenario: Scenario;
+  step: ScenarioStep;
+  phase: StepPhase;
+}
+
+export interface StepEndEvent {
+  scenario: Scenario;
+  step: ScenarioStep;
+  phase: StepPhase;
+  // Includes how the step was resolved, or `skipped` for steps that didn't run
+  result: StepResult;
+}
+
+export interface ScenarioEndEvent {
+  scenario: Scenario;
+  // Includes `skipped` for scenarios filtered out by tags
+  result: TestResult;
+}
+
+export interface RunEndEvent {
+  results: TestResults;
+}
+
+/**
+ * Events emitted as tests run, by name
+ */
+export interface ExecutionEventMap {
+  runStart: RunStartEvent;
+  scenarioStart: ScenarioStartEvent;
+  stepStart: StepStartEvent;
+  stepEnd: StepEndEvent;
+  scenarioEnd: ScenarioEndEvent;
+  runEnd: RunEndEvent;
+}
+
+/**
+ * Receives execution events as they happen. Steps and scenarios that don't
+ * run get an end event without a start event.
+ */
+export interface Reporter {
+  onRunStart?(event: RunStartEvent): void;
+  onScenarioStart?(event: ScenarioStartEvent): void;
+  onStepStart?(event: StepStartEvent): void;
+  onStepEnd?(event: StepEndEvent): void;
+  onScenarioEnd?(event: ScenarioEndEvent): void;
+  onRunEnd?(event: RunEndEvent): void;
+}
+
+/**
+ * A reporter in the configuration: the name of a built-in reporter or the path
+ * of a module exporting one, with options for it
+ */
+export type ReporterConfig = string | {
+  name: string;
+  options?: Record<string, any>;
+};
@@ -1,3 +1,60 @@
+import { ScenarioExample, SourceLocation, TestType } from './scenario';
+
+/**
+ * Part of a scenario a step belongs to
+ */
+export type StepPhase = 'background' | 'setup' | 'scenario' | 'teardown';
+
+/**
+ * How a step was interpreted and run
+ */
+export interface StepResolution {
+  // Capability that ran the step, if one matched
+  capability?: string;
+  confidence?: number;
+  // Adapter that ran the step when no capability matched, e.g. "api"
+  adapter?: string;
+  // What the step was read as: capability parameters, a UI action, an API
+  // request, a query or the expectations checked
+  interpretation?: any;
+}
+
+/**
+ * How a step would run, worked out without running it
+ */
+export interface StepPlan {
+  step: string;
+  phase: StepPhase;
+  location?: SourceLocation;
+  // Location of the `include:` step the step was inlined from
+  includedFrom?: SourceLocation;
+  // Test type the step is routed to
+  testType?: TestType;
+  resolution?: StepResolution;
+  retries: number;
+  timeout?: number;
+  // Variable the step saves, e.g. `userId`
+  capture?: string;
+  // Why the step could not be planned
+  error?: string;
+}
+
+/**
+ * How the steps of a scenario would run
+ */
+export interface ScenarioPlan {
+  scenarioTitle: string;
+  filePath?: string;
+  example?: ScenarioExample;
+  testType: TestType;
+  steps: StepPlan[];
+  // Set when the scenario would not run, e.g. filtered out by tags
+  skipped?: boolean;
+  skipReason?: string;
+  // Set when the scenario can't be run, e.g. because of a bad context value
+  error?: string;
+}
+
 /**
  * Result of a test step execution
  */
@@ -7,6 +64,15 @@ export interface StepResult {
   error?: string;
   screenshot?: string;
   duration: number;
+  // How often the step was tried, more than 1 when it was retried
+  attempts?: number;
+  phase?: StepPhase;
+  location?: SourceLocation;
+  // Location of the `include:` step the step was inlined from
+  includedFrom?: SourceLocation;
+  // Set on steps not run because an earlier step failed
+  skipped?: boolean;
+  resolution?: StepResolution;
 }
 
 /**
@@ -17,6 +83,11 @@ export interface ExecutorStepResult {
   status: 'passed' | 'failed' | 'skipped';
   error?: string;
   output?: any;
+  attempts?: number;
+  phase?: StepPhase;
+  location?: SourceLocation;
+  // Location of the `include:` step the step was inlined from
+  includedFrom?: SourceLocation;
 }
 
 /**
@@ -25,6 +96,8 @@ export interface ExecutorStepResult {
 export interface TestResult {
   // Original fields
   scenarioTitle?: string;
+  filePath?: string;
+  example?: ScenarioExample;
   success?: boolean;
   stepResults?: StepResult[];
   duration?: number;
@@ -35,6 +108,16 @@ export interface TestResult {
   passed: boolean;
   steps: ExecutorStepResult[];
   error?: string;
+  
+  // Failures of teardown steps, kept apart so they don't hide `error`
+  teardownErrors?: string[];
+  
+  // Values saved by the scenario's steps, e.g. `save response body.id as userId`
+  variables?: Record<string, any>;
+  
+  // Set when the scenario was not run, e.g. filtered out by tags
+  skipped?: boolean;
+  skipReason?: string;
 }
 
 /**
@@ -44,6 +127,7 @@ export interface TestResults {
   total: number;
   passed: number;
   failed: number;
+  skipped?: number;
   results: TestResult[];
   duration: number;
 }
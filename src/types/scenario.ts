@@ -7,20 +7,127 @@ export interface ScenarioContext {
 
 export type StepType = 'given' | 'when' | 'then' | 'and';
 
+/**
+ * A range in a scenario file. Lines and columns are 1-based and the end is
+ * exclusive.
+ */
+export interface SourceLocation {
+  file?: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * Structured data written under a step
+ */
+export interface StepDetails {
+  // Payload from a fenced ```json block or JSON indented under the step
+  body?: any;
+  // `- key: value` sub-bullets, with numbers, booleans and quoted strings typed
+  expectations?: Record<string, any>;
+  // Rows of a table under the step, keyed by column header
+  table?: Array<Record<string, any>>;
+  // Any other fenced or indented code block, e.g. ```sql
+  code?: { language?: string; content: string };
+  // Gherkin doc string and data table, as written
+  docString?: { content: string; mediaType?: string };
+  dataTable?: string[][];
+  [key: string]: any;
+}
+
+/**
+ * The `include:` step a step was inlined from
+ */
+export interface StepInclude {
+  // Path of the included file, as written in the include step
+  path: string;
+  parameters: Record<string, string>;
+  // Type and keyword of the include step itself
+  type?: StepType;
+  keyword?: string;
+  // Where the include step is written in the scenario file
+  location?: SourceLocation;
+}
+
 export interface ScenarioStep {
   type: StepType;
+  // The keyword as written, e.g. `Wenn` for a `when` step in German
+  keyword?: string;
   instruction: string;
-  details?: Record<string, any>;
+  details?: StepDetails;
+  // Line the step starts on in its file
   lineNumber?: number;
+  location?: SourceLocation;
+  // Set on steps inlined from a shared snippet file
+  includedFrom?: StepInclude;
 }
 
-export type TestType = 'ui' | 'api' | 'database' | 'generic' | 'typedapi';
+// The built-in test types; addons can register more through the capability registry
+export type TestType = 'ui' | 'api' | 'database' | 'generic' | 'typedapi' | (string & {});
+
+/**
+ * The Examples row a scenario was expanded from
+ */
+export interface ScenarioExample {
+  // Title of the scenario outline, with placeholders
+  outline: string;
+  // Position of the row in the Examples table (1-based)
+  index: number;
+  values: Record<string, string>;
+  // The outline's steps, still with placeholders, shared by every row
+  template?: Pick<Scenario, 'steps' | 'setup' | 'teardown'>;
+}
 
 export interface Scenario {
   title: string;
+  // Where the scenario's heading is written
+  location?: SourceLocation;
   description?: string;
   context: ScenarioContext;
   steps: ScenarioStep[];
+  // Shared steps run before the scenario's own steps
+  background?: ScenarioStep[];
+  // Steps run before the scenario's own steps, from `### Setup`
+  setup?: ScenarioStep[];
+  // Steps run after the others even when one fails, from `### Teardown`
+  teardown?: ScenarioStep[];
   testType?: TestType;
+  // Language of the step keywords, when not English, e.g. `de`
+  language?: string;
   filePath?: string;
+  // Title of the feature (file) the scenario was parsed from
+  feature?: string;
+  tags?: string[];
+  // Set when the scenario was expanded from a scenario outline
+  example?: ScenarioExample;
+  // Subsections the runner doesn't read, e.g. `### Expected Results`, as written
+  notes?: string[];
+}
+
+/**
+ * A parsed scenario file: a shared title and context with one or more scenarios
+ */
+export interface Feature {
+  title: string;
+  description?: string;
+  context: ScenarioContext;
+  background?: ScenarioStep[];
+  scenarios: Scenario[];
+  testType?: TestType;
+  filePath?: string;
+  tags?: string[];
+  // Sections other than context, background and scenarios, as written
+  notes?: string[];
+}
+
+/**
+ * A problem found while linting a scenario file
+ */
+export interface ParseDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
 }
@@ -0,0 +1,21 @@
+import { APIResponse } from '../adapters/APIAdapter';
+import { QueryResult } from '../adapters/DatabaseAdapter';
+import { VariableStore } from '../core/VariableStore';
+import { ScreenState } from './actions';
+
+/**
+ * What the steps of a scenario have done so far. Each scenario run has its
+ * own world, shared by its steps, the capabilities they run and the adapters.
+ */
+export interface ScenarioWorld {
+  // Response to the last API request
+  lastResponse?: APIResponse;
+  // Result of the last database query
+  lastQueryResult?: QueryResult;
+  // What the browser showed after the last UI step
+  screenState?: ScreenState;
+  // Values saved by the steps, e.g. with `save response body.id as userId`
+  variables: VariableStore;
+  // Anything else the steps produced, e.g. what each capability returned by its name
+  artifacts: Record<string, any>;
+}
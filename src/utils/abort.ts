@@ -0,0 +1,95 @@
+/**
+ * Get the error an aborted signal was aborted with
+ * @param signal The aborted signal
+ */
+export function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error(String(signal.reason ?? 'Aborted'));
+}
+
+/**
+ * Throw the abort error if a signal has been aborted
+ * @param signal The signal, if any
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+/**
+ * Settle with a promise, or reject as soon as a signal is aborted. Work that
+ * doesn't watch the signal itself keeps going, but is no longer waited for.
+ * @param promise The work to wait for
+ * @param signal Aborted to stop waiting
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Create a signal that is aborted a set time after its clock is started, e.g.
+ * to give cleanup a time limit of its own once the work before it ends
+ * @param timeout The time limit in milliseconds
+ * @param reason The error the signal is aborted with
+ * @returns The signal, a function starting the clock, which only counts the
+ * first call, and a function stopping it
+ */
+export function createDeadline(timeout: number, reason: Error): {
+  signal: AbortSignal;
+  start: () => void;
+  dispose: () => void;
+} {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return {
+    signal: controller.signal,
+    start: () => {
+      if (!timer) {
+        timer = setTimeout(() => controller.abort(reason), timeout);
+      }
+    },
+    dispose: () => clearTimeout(timer)
+  };
+}
+
+/**
+ * Create a controller that is also aborted when a parent signal is
+ * @param parent The signal to follow, if any
+ * @returns The controller, and a function to stop following the parent
+ */
+export function createLinkedController(parent?: AbortSignal): { controller: AbortController; dispose: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent!.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    controller,
+    dispose: () => parent?.removeEventListener('abort', onAbort)
+  };
+}
@@ -0,0 +1,24 @@
+import { ScenarioStep, SourceLocation } from '../types/scenario';
+
+/**
+ * Format a source location as `file:line:column`
+ * @param location The location to format
+ */
+export function formatLocation(location: SourceLocation): string {
+  const position = `${location.line}:${location.column}`;
+  return location.file ? `${location.file}:${position}` : position;
+}
+
+/**
+ * Identify a step by where it was written, falling back to its line number
+ * for steps built without a location
+ * @param step The step
+ * @param filePath The file the step belongs to
+ */
+export function stepLocationId(step: ScenarioStep, filePath?: string): string {
+  if (step.location) {
+    return formatLocation({ ...step.location, file: step.location.file || filePath });
+  }
+
+  return `${filePath}:${step.lineNumber || 0}`;
+}
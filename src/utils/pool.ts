@@ -0,0 +1,26 @@
+/**
+ * Run a task for every item with up to `size` tasks in flight. Each worker
+ * picks the next item as soon as its current task settles.
+ * @param items The items to run the task for
+ * @param size How many tasks may run at once
+ * @param task Runs one item on the given worker, numbered from 0
+ * @returns The task results, in the order of the items
+ */
+export async function runPool<T, R>(
+  items: T[],
+  size: number,
+  task: (item: T, worker: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const work = async (worker: number) => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], worker);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(size, items.length)) }, (_, worker) => work(worker)));
+  return results;
+}
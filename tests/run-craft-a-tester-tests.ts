@@ -580,14 +580,15 @@ async function runCraftATesterTests() {
             // Run the test
             const result = await testExecutor.runScenario(testFile);
             
-            if (result.success) {
+            if (result.failed === 0) {
               console.log(`✅ Test passed: ${path.basename(testFile)}`);
               passedTests++;
             } else {
               console.log(`❌ Test failed: ${path.basename(testFile)}`);
               
               // Show failing steps
-              result.stepResults
+              result.results
+                .flatMap(scenarioResult => scenarioResult.stepResults || [])
                 .filter(step => !step.success)
                 .forEach(step => {
                   console.log(`  - Failed at step: ${step.step}`);
@@ -604,14 +605,15 @@ async function runCraftATesterTests() {
           // Standard test execution for non-adapter tests
           const result = await testExecutor.runScenario(testFile);
           
-          if (result.success) {
+          if (result.failed === 0) {
             console.log(`✅ Test passed: ${path.basename(testFile)}`);
             passedTests++;
           } else {
             console.log(`❌ Test failed: ${path.basename(testFile)}`);
             
             // Show failing steps
-            result.stepResults
+            result.results
+              .flatMap(scenarioResult => scenarioResult.stepResults || [])
               .filter(step => !step.success)
               .forEach(step => {
                 console.log(`  - Failed at step: ${step.step}`);
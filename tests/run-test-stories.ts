@@ -37,8 +37,8 @@ async function runSelfTestStories() {
     const results = await runner.runTestDirectory(storiesDir);
     
     // Print summary
-    const totalTests = Object.keys(results).length;
-    const passedTests = Object.values(results).filter(r => r.passed).length;
+    const totalTests = Object.values(results).reduce((sum, r) => sum + r.total, 0);
+    const passedTests = Object.values(results).reduce((sum, r) => sum + r.passed, 0);
     const failedTests = totalTests - passedTests;
     
     console.log('\n===== craft-a-tester Self-Test Stories Summary =====');
@@ -48,11 +48,13 @@ async function runSelfTestStories() {
     
     if (failedTests > 0) {
       console.log('\nFailed Tests:');
-      Object.entries(results)
-        .filter(([_, result]) => !result.passed)
-        .forEach(([path, result]) => {
-          console.log(`- ${path.replace(storiesDir, '')}: ${result.error || 'Failed steps'}`);
-        });
+      Object.entries(results).forEach(([path, fileResults]) => {
+        fileResults.results
+          .filter(result => !result.passed)
+          .forEach(result => {
+            console.log(`- ${path.replace(storiesDir, '')} > ${result.scenarioTitle || 'Untitled'}: ${result.error || 'Failed steps'}`);
+          });
+      });
       
       process.exit(1);
     }